@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import { describe, expect, it } from 'vitest';
+import { cookieValue, removeCookieFile, toCookieHeader, toNetscapeCookies, writeCookieFile } from './cookies.js';
+
+const NETSCAPE = [
+  '# Netscape HTTP Cookie File',
+  '.instagram.com\tTRUE\t/\tTRUE\t1900000000\tsessionid\tabc%3A123',
+  '#HttpOnly_.instagram.com\tTRUE\t/\tTRUE\t1900000000\tcsrftoken\txyz',
+  ''
+].join('\n');
+
+describe('toNetscapeCookies', () => {
+  it('scopes a cookie header to the platform domain', () => {
+    expect(toNetscapeCookies('Cookie: a=1; b = two=2 ;; =skip', '.youtube.com')).toBe(
+      '# Netscape HTTP Cookie File\n' +
+      '.youtube.com\tTRUE\t/\tTRUE\t0\ta\t1\n' +
+      '.youtube.com\tTRUE\t/\tTRUE\t0\tb\ttwo=2\n'
+    );
+  });
+
+  it('passes cookies.txt content through with a trailing newline', () => {
+    expect(toNetscapeCookies(NETSCAPE)).toBe(NETSCAPE);
+    expect(toNetscapeCookies(NETSCAPE.trimEnd())).toBe(NETSCAPE);
+  });
+
+  it('gives up on headers without a domain or without cookies', () => {
+    expect(toNetscapeCookies('a=1')).toBeUndefined();
+    expect(toNetscapeCookies('garbage', '.youtube.com')).toBeUndefined();
+  });
+});
+
+describe('toCookieHeader', () => {
+  it('reads cookies.txt content including HttpOnly entries', () => {
+    expect(toCookieHeader(NETSCAPE)).toBe('sessionid=abc%3A123; csrftoken=xyz');
+  });
+
+  it('normalizes a cookie header', () => {
+    expect(toCookieHeader('a = 1;b=2')).toBe('a=1; b=2');
+  });
+});
+
+describe('cookieValue', () => {
+  it('finds a cookie by exact name in either format', () => {
+    expect(cookieValue(NETSCAPE, 'sessionid')).toBe('abc%3A123');
+    expect(cookieValue('xsessionid=no; sessionid=yes', 'sessionid')).toBe('yes');
+    expect(cookieValue('a=1', 'sessionid')).toBeUndefined();
+  });
+});
+
+describe('writeCookieFile', () => {
+  it('writes a file only the owner can read and removes it again', async () => {
+    const filePath = await writeCookieFile(os.tmpdir(), NETSCAPE);
+    try {
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(NETSCAPE);
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+    } finally {
+      await removeCookieFile(filePath);
+    }
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+});
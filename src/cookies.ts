@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ProxySettings } from './proxy.js';
+
+/**
+ * Credentials supplied with the session config. Values are secrets: they are only
+ * ever written to private temp files and must never be logged or echoed back.
+ */
+export interface PlatformCredentials {
+  /** Per-platform cookies, keyed by platform: Netscape cookies.txt content or a `name=value; ...` header */
+  cookies?: Record<string, string>;
+  /** `sessionid` cookie of a logged-in Instagram account, needed for stories and highlights */
+  instagramSessionId?: string;
+  /** Outbound proxies of the session; proxy URLs can embed passwords, so they are secrets too */
+  proxy?: ProxySettings;
+}
+
+const NETSCAPE_HEADER = '# Netscape HTTP Cookie File';
+
+function isNetscapeCookies(value: string): boolean {
+  return value.trimStart().startsWith('# ') || value.split('\n').some(line => line.split('\t').length >= 7);
+}
+
+function parseCookieHeader(value: string): Array<[string, string]> {
+  return value
+    .replace(/^cookie:\s*/i, '')
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part.includes('='))
+    .map(part => {
+      const separator = part.indexOf('=');
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()] as [string, string];
+    })
+    .filter(([name]) => name.length > 0);
+}
+
+/**
+ * Normalize configured cookies to cookies.txt content for yt-dlp's `--cookies`.
+ * Cookie headers are scoped to `domain`; returns undefined when a header is given
+ * without a domain to scope it to.
+ */
+export function toNetscapeCookies(value: string, domain?: string): string | undefined {
+  if (isNetscapeCookies(value)) {
+    return value.endsWith('\n') ? value : `${value}\n`;
+  }
+
+  const cookies = parseCookieHeader(value);
+  if (!domain || cookies.length === 0) return undefined;
+
+  // Expiry 0 marks session cookies, which yt-dlp loads like any other
+  const lines = cookies.map(([name, cookieValue]) => [domain, 'TRUE', '/', 'TRUE', '0', name, cookieValue].join('\t'));
+  return `${NETSCAPE_HEADER}\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Cookie header form of the configured cookies, for direct API requests.
+ */
+export function toCookieHeader(value: string): string {
+  if (!isNetscapeCookies(value)) {
+    return parseCookieHeader(value).map(([name, cookieValue]) => `${name}=${cookieValue}`).join('; ');
+  }
+
+  return value
+    .split('\n')
+    .map(line => line.replace(/^#HttpOnly_/, '').split('\t'))
+    .filter(fields => fields.length >= 7 && !fields[0].startsWith('#'))
+    .map(fields => `${fields[5]}=${fields[6].trim()}`)
+    .join('; ');
+}
+
+export function cookieValue(value: string, name: string): string | undefined {
+  return toCookieHeader(value)
+    .split('; ')
+    .find(part => part.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+}
+
+/**
+ * Write cookies to a file only the server user can read, for one yt-dlp call.
+ * The caller removes it with removeCookieFile once the process has exited.
+ */
+export async function writeCookieFile(tempDir: string, content: string): Promise<string> {
+  const filePath = path.join(tempDir, `cookies_${randomUUID()}.txt`);
+  await fs.writeFile(filePath, content, { mode: 0o600 });
+  return filePath;
+}
+
+export async function removeCookieFile(filePath: string): Promise<void> {
+  await fs.unlink(filePath).catch(() => undefined);
+}
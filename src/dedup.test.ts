@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeduplicationIndex } from './dedup.js';
+import { formatCacheKey } from './downloader.js';
+import type { CloudStorageService } from './storage.js';
+
+// In-memory stand-in for the bucket: JSON objects by key plus the set of stored media keys
+function createStorage() {
+  const objects = new Map<string, string>();
+  const media = new Set<string>(['youtube/video.mp4']);
+  const storage = {
+    getObjectText: vi.fn(async (key: string) => objects.get(key)),
+    putJson: vi.fn(async (key: string, value: unknown) => {
+      objects.set(key, JSON.stringify(value));
+    }),
+    objectExists: vi.fn(async (key: string) => media.has(key)),
+    getObjectUrl: vi.fn(async (key: string) => `https://cdn.example.com/${key}?fresh`)
+  };
+  return { objects, media, storage, index: new DeduplicationIndex(storage as unknown as CloudStorageService) };
+}
+
+const entry = {
+  platform: 'youtube',
+  format: formatCacheKey('video', { maxHeight: 720 }),
+  objectKey: 'youtube/video.mp4',
+  publicUrl: 'https://cdn.example.com/youtube/video.mp4?expired',
+  sourceUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ'
+};
+
+describe('DeduplicationIndex', () => {
+  let setup: ReturnType<typeof createStorage>;
+
+  beforeEach(async () => {
+    setup = createStorage();
+    await setup.index.record(entry);
+  });
+
+  it('finds the same entry from every URL form of the video', async () => {
+    for (const url of [
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://youtu.be/dQw4w9WgXcQ',
+      'https://m.youtube.com/watch?feature=share&v=dQw4w9WgXcQ',
+      'https://www.youtube.com/shorts/dQw4w9WgXcQ'
+    ]) {
+      const found = await setup.index.lookup(url, 'youtube', entry.format);
+      expect(found, url).toMatchObject({ videoId: 'dQw4w9WgXcQ', objectKey: 'youtube/video.mp4' });
+    }
+    expect(setup.objects.size).toBe(1);
+  });
+
+  it('hands out a fresh URL instead of the stored one', async () => {
+    const found = await setup.index.lookup(entry.sourceUrl, 'youtube', entry.format);
+    expect(found?.publicUrl).toBe('https://cdn.example.com/youtube/video.mp4?fresh');
+  });
+
+  it('keeps different format options apart', async () => {
+    for (const format of [
+      formatCacheKey('video', { maxHeight: 1080 }),
+      formatCacheKey('video', { maxHeight: 720, codec: 'h264' }),
+      formatCacheKey('video'),
+      'audio:mp3'
+    ]) {
+      expect(format).not.toBe(entry.format);
+      expect(await setup.index.lookup(entry.sourceUrl, 'youtube', format), format).toBeUndefined();
+    }
+  });
+
+  it('keeps platforms and videos apart', async () => {
+    expect(await setup.index.lookup('https://www.youtube.com/watch?v=aaaaaaaaaaa', 'youtube', entry.format)).toBeUndefined();
+    expect(await setup.index.lookup('https://www.tiktok.com/@u/video/123', 'tiktok', entry.format)).toBeUndefined();
+  });
+
+  it('treats a missing, corrupt or orphaned index entry as a miss', async () => {
+    const [key] = setup.objects.keys();
+
+    setup.objects.set(key, '{ not json');
+    expect(await setup.index.lookup(entry.sourceUrl, 'youtube', entry.format)).toBeUndefined();
+
+    setup.objects.clear();
+    expect(await setup.index.lookup(entry.sourceUrl, 'youtube', entry.format)).toBeUndefined();
+
+    await setup.index.record(entry);
+    setup.media.clear();
+    expect(await setup.index.lookup(entry.sourceUrl, 'youtube', entry.format)).toBeUndefined();
+  });
+
+  it('treats storage errors as a miss', async () => {
+    setup.storage.getObjectText.mockRejectedValueOnce(new Error('S3 down'));
+    expect(await setup.index.lookup(entry.sourceUrl, 'youtube', entry.format)).toBeUndefined();
+  });
+
+  it('skips URLs without a video ID', async () => {
+    expect(await setup.index.lookup('https://www.youtube.com/playlist?list=PL123', 'youtube', entry.format)).toBeUndefined();
+    expect(setup.storage.getObjectText).not.toHaveBeenCalled();
+  });
+});
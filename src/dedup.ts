@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import type { VideoMetadata } from './downloader.js';
+import type { CloudStorageService } from './storage.js';
+import { sanitizeKeySegment } from './keys.js';
+import type { StoredFile } from './types.js';
+import { videoIdFromUrl } from './urls.js';
+
+export interface DedupEntry {
+  platform: string;
+  videoId: string;
+  format: string;
+  objectKey: string;
+  publicUrl: string;
+  fileSize?: number;
+  files?: StoredFile[];
+  sourceUrl: string;
+  createdAt: string;
+  metadata?: VideoMetadata;
+}
+
+const DEDUP_PREFIX = '.dedup/';
+
+/**
+ * Index of already-uploaded media, stored as small JSON objects under
+ * `.dedup/` in the same bucket so it survives restarts and is shared
+ * between server instances.
+ */
+export class DeduplicationIndex {
+  private readonly storage: CloudStorageService;
+
+  constructor(storage: CloudStorageService) {
+    this.storage = storage;
+  }
+
+  private entryKey(platform: string, videoId: string, format: string): string {
+    const formatHash = createHash('sha1').update(format).digest('hex').slice(0, 16);
+    return `${DEDUP_PREFIX}${sanitizeKeySegment(platform)}/${sanitizeKeySegment(videoId)}/${formatHash}.json`;
+  }
+
+  /**
+   * Find a previous upload for this URL and format. The stored object must still
+   * exist; the returned entry carries a freshly generated URL.
+   */
+  async lookup(url: string, platform: string, format: string): Promise<DedupEntry | undefined> {
+    const videoId = videoIdFromUrl(url, platform);
+    if (!videoId) return undefined;
+
+    try {
+      const content = await this.storage.getObjectText(this.entryKey(platform, videoId, format));
+      if (!content) return undefined;
+
+      const entry: DedupEntry = JSON.parse(content);
+      if (!(await this.storage.objectExists(entry.objectKey))) {
+        return undefined;
+      }
+
+      // Presigned URLs in the index expire, always hand out a fresh one
+      const files = entry.files && await Promise.all(entry.files.map(async (file) => ({
+        ...file,
+        publicUrl: await this.storage.getObjectUrl(file.objectKey)
+      })));
+      return { ...entry, files, publicUrl: await this.storage.getObjectUrl(entry.objectKey) };
+    } catch (error) {
+      console.warn(`Dedup lookup failed for ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  async record(entry: Omit<DedupEntry, 'videoId' | 'createdAt'>): Promise<void> {
+    // Prefer the URL-derived ID, that is what lookup() will search for
+    const videoId = videoIdFromUrl(entry.sourceUrl, entry.platform) || entry.metadata?.id;
+    if (!videoId) return;
+
+    try {
+      await this.storage.putJson(this.entryKey(entry.platform, videoId, entry.format), {
+        ...entry,
+        videoId,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn(`Failed to record dedup entry for ${entry.sourceUrl}:`, error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildFormatArgs, formatCacheKey, parseYtDlpProgress } from './downloader.js';
+
+describe('parseYtDlpProgress', () => {
+  it('reads percent, size, speed and ETA from download lines', () => {
+    expect(parseYtDlpProgress('[download]  45.0% of ~  10.00MiB at    1.23MiB/s ETA 00:07 (frag 3/10)')).toEqual({
+      phase: 'downloading',
+      percent: 45,
+      totalBytes: 10 * 1024 ** 2,
+      downloadedBytes: Math.round(10 * 1024 ** 2 * 0.45),
+      speed: '1.23MiB/s',
+      eta: '00:07'
+    });
+  });
+
+  it('handles decimal units and lines without speed or ETA', () => {
+    expect(parseYtDlpProgress('[download] 100% of 2.50MB')).toEqual({
+      phase: 'downloading',
+      percent: 100,
+      totalBytes: 2500000,
+      downloadedBytes: 2500000,
+      speed: undefined,
+      eta: undefined
+    });
+  });
+
+  it('reports other download lines without numbers', () => {
+    expect(parseYtDlpProgress('[download] Destination: /tmp/video.mp4')).toEqual({ phase: 'downloading' });
+  });
+
+  it('recognizes post-processing and extractor lines', () => {
+    expect(parseYtDlpProgress('[Merger] Merging formats into "video.mp4"')).toEqual({ phase: 'post-processing' });
+    expect(parseYtDlpProgress('[FixupM3u8] Fixing MPEG-TS in MP4 container')).toEqual({ phase: 'post-processing' });
+    expect(parseYtDlpProgress('[youtube] abc123: Downloading webpage')).toEqual({ phase: 'resolving' });
+  });
+
+  it('ignores lines that are not yt-dlp status output', () => {
+    expect(parseYtDlpProgress('')).toBeUndefined();
+    expect(parseYtDlpProgress('some unrelated text')).toBeUndefined();
+  });
+});
+
+describe('buildFormatArgs', () => {
+  it('adds nothing without format options', () => {
+    expect(buildFormatArgs()).toEqual([]);
+    expect(buildFormatArgs({ maxHeight: undefined })).toEqual([]);
+  });
+
+  it('turns limits into filters on both the merged and the single-file selector', () => {
+    expect(buildFormatArgs({ maxHeight: 720, maxFps: 30 })).toEqual([
+      '--format', 'bv*[height<=?720][fps<=?30]+ba/b[height<=?720][fps<=?30]'
+    ]);
+  });
+
+  it('prefers codec and container through sorting and remuxes to the container', () => {
+    expect(buildFormatArgs({ codec: 'h264', container: 'mp4' })).toEqual([
+      '--format', 'bv*+ba/b',
+      '--format-sort', 'vcodec:h264,ext:mp4:m4a',
+      '--merge-output-format', 'mp4',
+      '--remux-video', 'mp4'
+    ]);
+  });
+
+  it('caps the file size in the selector and as a download limit', () => {
+    expect(buildFormatArgs({ maxFilesizeMb: 50 })).toEqual([
+      '--format', 'bv*[filesize<?50M]+ba/b[filesize<?50M]',
+      '--max-filesize', '50M'
+    ]);
+  });
+
+  it('uses a raw format string instead of the generated selector', () => {
+    expect(buildFormatArgs({ formatString: 'bv*[height<=480]+ba/b', maxHeight: 1080, codec: 'av1' })).toEqual([
+      '--format', 'bv*[height<=480]+ba/b'
+    ]);
+  });
+});
+
+describe('formatCacheKey', () => {
+  it('is independent of option order and skips unset options', () => {
+    expect(formatCacheKey('video', { maxHeight: 720, codec: 'h264', container: undefined }))
+      .toBe(formatCacheKey('video', { codec: 'h264', maxHeight: 720 }));
+    expect(formatCacheKey('video', { codec: 'h264', maxHeight: 720 })).toBe('video:codec=h264,maxHeight=720');
+    expect(formatCacheKey('video')).toBe('video');
+  });
+});
@@ -1,37 +1,538 @@
 import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { MediaProcessingService, supportsCoverArt, type AudioEncoding, type MediaProbe, type TimeRange } from './media.js';
+import { removeCookieFile, toNetscapeCookies, writeCookieFile, type PlatformCredentials } from './cookies.js';
+import { proxyArgs, proxyFetch, ProxyRouter } from './proxy.js';
+import { classifyHttpStatus, classifyYtDlpError, isBlockedCode, MediaError, type ErrorCode } from './errors.js';
+import { detectExtractor, getExtractor, listExtractors, ytDlpMethod, type ExtractorContext } from './extractors/index.js';
+import { assertPublicHost, parseMediaUrl, resolveShortLink, type MediaUrl } from './urls.js';
+import { getTranscodeProfile, validateTranscode, type TranscodeProfileName } from './transcode.js';
+import { SPEECH_SAMPLE_RATE, SpeechTranscriber, type SpeechToTextSettings } from './speech.js';
+import type { TranscriptSegment } from './transcript.js';
+import type { VideoFormat, YtDlpFormat, YtDlpOutput, YtDlpPlaylistEntry, YtDlpPlaylistOutput } from './types.js';
 
 export interface VideoMetadata {
+  id?: string;
   title: string;
   uploader: string;
+  uploader_id?: string;
   duration: number;
   view_count?: number;
+  like_count?: number;
+  comment_count?: number;
   upload_date?: string;
   description?: string;
+  tags?: string[];
+  categories?: string[];
   thumbnail_url?: string;
   direct_url?: string;
+  webpage_url?: string;
+  extractor?: string;
   platform: string;
   quality?: string;
+  ext?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+}
+
+export type MediaType = 'video' | 'image';
+
+export interface DownloadedFile {
+  filePath: string;
+  mediaType: MediaType;
+  /** 1-based position within a carousel post */
+  index: number;
+  direct_url?: string;
 }
 
 export interface DownloadResult {
   success: boolean;
+  /** First (or only) file, the cover of a carousel post */
   filePath?: string;
+  /** Every file of a multi-media post in post order; set only when there is more than one */
+  files?: DownloadedFile[];
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  /** Seconds the platform asked to wait before retrying */
+  retryAfter?: number;
+  platform: string;
+  /** Name of the download method that produced the file, e.g. instagram-graphql or yt-dlp */
+  method?: string;
+}
+
+export type ClipMethod = 'download-sections' | 'ffmpeg';
+
+export interface DownloadedClip {
+  filePath: string;
+  range: TimeRange;
+  /** Exact duration in seconds, measured on the clip file */
+  duration: number;
+}
+
+export interface ClipDownloadResult {
+  success: boolean;
+  /** One clip per requested range, in request order */
+  clips?: DownloadedClip[];
+  /** yt-dlp section downloads, or a full download trimmed with ffmpeg */
+  method?: ClipMethod;
   metadata?: VideoMetadata;
   error?: string;
+  errorCode?: ErrorCode;
+  retryAfter?: number;
   platform: string;
 }
 
+export type DownloadPhase = 'resolving' | 'downloading' | 'post-processing';
+
+export interface DownloadProgress {
+  phase: DownloadPhase;
+  percent?: number;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  speed?: string;
+  eta?: string;
+}
+
+export type VideoContainer = 'mp4' | 'webm' | 'mkv';
+export type VideoCodec = 'h264' | 'vp9' | 'av1' | 'any';
+
+export interface FormatOptions {
+  maxHeight?: number;
+  maxFps?: number;
+  maxFilesizeMb?: number;
+  container?: VideoContainer;
+  codec?: VideoCodec;
+  /** Raw yt-dlp format selector, replaces the generated one */
+  formatString?: string;
+}
+
+export interface AudioOptions extends Partial<AudioEncoding> {
+  /** Tag the file with title, artist and date and embed the thumbnail as cover art */
+  embedMetadata?: boolean;
+}
+
+const DEFAULT_AUDIO: Required<Omit<AudioOptions, 'channels' | 'sampleRate'>> = {
+  format: 'mp3',
+  bitrate: 192,
+  normalize: false,
+  embedMetadata: true
+};
+
+export interface DownloadOptions {
+  onProgress?: (progress: DownloadProgress) => void;
+  signal?: AbortSignal;
+  format?: FormatOptions;
+  credentials?: PlatformCredentials;
+  /** Only download this part of the video, yt-dlp downloads only */
+  section?: TimeRange;
+  /** Re-encode around section cuts so clips start and end on the exact frames */
+  accurateCuts?: boolean;
+  /** Transcode downloaded videos with this profile before they are returned */
+  profile?: TranscodeProfileName;
+  /** Output settings of audio downloads */
+  audio?: AudioOptions;
+}
+
+export interface DownloaderOptions {
+  /** Local speech-to-text backend, transcription is unavailable without it */
+  speech?: SpeechToTextSettings;
+}
+
+// Actionable messages for yt-dlp failures, categories without one show yt-dlp's own output
+const FAILURE_MESSAGES: Partial<Record<ErrorCode, (platform: string) => string>> = {
+  BOT_DETECTED: (platform) => `${platform} bot detection triggered. Try again later or route ${platform} through a different IP with proxyUrl or proxyPool.`,
+  RATE_LIMITED: (platform) => `Rate limited by ${platform}. Please wait before trying again.`,
+  AUTH_REQUIRED: (platform) => `${platform} requires authentication. This content may be private or restricted, add ${platform} cookies to the server config if you have access to it.`,
+  PRIVATE: (platform) => `This ${platform} content is private. Add ${platform} cookies of an account with access to the server config.`,
+  GEO_BLOCKED: (platform) => `This content is not available in the server's region. Route ${platform} through a proxy in another country with platformProxies.`,
+  NOT_FOUND: () => 'Video not found or has been removed.',
+  TIMEOUT: (platform) => `The request to ${platform} timed out. Please try again.`
+};
+
+const COVER_ART_TIMEOUT_MS = 15000;
+// A stalled thumbnail CDN falls back to capturing a frame instead of hanging the tool call
+const THUMBNAIL_TIMEOUT_MS = 15000;
+
+const CODEC_SORT_KEYS: Record<Exclude<VideoCodec, 'any'>, string> = {
+  h264: 'vcodec:h264',
+  vp9: 'vcodec:vp9',
+  av1: 'vcodec:av01'
+};
+
+const CONTAINER_SORT_KEYS: Record<VideoContainer, string | undefined> = {
+  mp4: 'ext:mp4:m4a',
+  webm: 'ext:webm:webm',
+  mkv: undefined // mkv holds any codec, nothing to prefer
+};
+
+function hasFormatOptions(format?: FormatOptions): format is FormatOptions {
+  return !!format && Object.values(format).some(value => value !== undefined);
+}
+
+/**
+ * Translate format options into yt-dlp arguments. Hard limits (height, fps, size)
+ * become format filters, codec and container become sort preferences so a
+ * download still succeeds when the preferred codec is not offered.
+ */
+export function buildFormatArgs(format?: FormatOptions): string[] {
+  if (!hasFormatOptions(format)) return [];
+
+  const args: string[] = [];
+
+  if (format.formatString) {
+    args.push('--format', format.formatString);
+  } else {
+    // `<=?` also accepts formats where the field is unknown
+    const filters = [
+      format.maxHeight !== undefined ? `[height<=?${format.maxHeight}]` : '',
+      format.maxFps !== undefined ? `[fps<=?${format.maxFps}]` : '',
+      format.maxFilesizeMb !== undefined ? `[filesize<?${format.maxFilesizeMb}M]` : ''
+    ].join('');
+    args.push('--format', `bv*${filters}+ba/b${filters}`);
+
+    const sortKeys = [
+      format.codec && format.codec !== 'any' ? CODEC_SORT_KEYS[format.codec] : undefined,
+      format.container ? CONTAINER_SORT_KEYS[format.container] : undefined
+    ].filter((key): key is string => !!key);
+    if (sortKeys.length > 0) {
+      args.push('--format-sort', sortKeys.join(','));
+    }
+  }
+
+  if (format.container) {
+    args.push('--merge-output-format', format.container, '--remux-video', format.container);
+  }
+
+  if (format.maxFilesizeMb !== undefined) {
+    args.push('--max-filesize', `${format.maxFilesizeMb}M`);
+  }
+
+  return args;
+}
+
+/**
+ * Stable description of a format request, used to key cached downloads.
+ */
+export function formatCacheKey(kind: string, format?: FormatOptions | AudioOptions): string {
+  const parts = Object.entries(format || {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`);
+  return parts.length > 0 ? `${kind}:${parts.join(',')}` : kind;
+}
+
+/**
+ * Cache key of an audio request. Settings left at their defaults are omitted,
+ * so plain MP3 requests keep the `audio:mp3` key.
+ */
+export function audioCacheKey(audio: AudioOptions = {}): string {
+  const { format, ...settings } = resolveAudioOptions(audio);
+  const changed = Object.fromEntries(Object.entries(settings)
+    .filter(([name, value]) => value !== DEFAULT_AUDIO[name as keyof typeof DEFAULT_AUDIO]));
+  return formatCacheKey(`audio:${format}`, changed);
+}
+
+function resolveAudioOptions(audio: AudioOptions = {}): AudioOptions & typeof DEFAULT_AUDIO {
+  const defined = Object.fromEntries(Object.entries(audio).filter(([, value]) => value !== undefined));
+  return { ...DEFAULT_AUDIO, ...defined };
+}
+
+// Tags written to audio files, yt-dlp upload dates are YYYYMMDD
+function audioTags(metadata: VideoMetadata): Record<string, string> {
+  const tags: Record<string, string> = { title: metadata.title };
+  if (metadata.uploader && metadata.uploader !== 'Unknown') tags.artist = metadata.uploader;
+  if (metadata.upload_date) tags.date = metadata.upload_date.slice(0, 4);
+  if (metadata.webpage_url) tags.comment = metadata.webpage_url;
+  return tags;
+}
+
+/**
+ * Human-readable description of an audio encoding, e.g. `mp3 192 kbps, mono, 44.1 kHz`.
+ */
+function describeAudio(audio: AudioOptions & typeof DEFAULT_AUDIO): string {
+  const lossless = audio.format === 'flac' || audio.format === 'wav';
+  return [
+    `${audio.format}${lossless ? '' : ` ${audio.bitrate} kbps`}`,
+    audio.channels ? (audio.channels === 1 ? 'mono' : 'stereo') : undefined,
+    audio.sampleRate && audio.format !== 'opus' ? `${audio.sampleRate / 1000} kHz` : undefined,
+    audio.normalize ? 'loudness normalized' : undefined
+  ].filter(Boolean).join(', ');
+}
+
+// Files a successful result hands to the caller, which owns their cleanup from then on
+function downloadedPaths(result: DownloadResult): string[] {
+  if (!result.success) return [];
+  return [result.filePath, ...(result.files || []).map(file => file.filePath)].filter((filePath): filePath is string => !!filePath);
+}
+
+// File the yt-dlp run writes its downloaded paths to, removed with the rest of the prefix
+function downloadListPath(tempDir: string, prefix: string): string {
+  return path.join(tempDir, `${prefix}.files`);
+}
+
+/**
+ * Human-readable description of the format yt-dlp actually picked,
+ * e.g. `720p30 avc1+mp4a mp4 (format 136+140)`.
+ */
+function describeQuality(info: YtDlpOutput): string {
+  const parts: string[] = [];
+
+  if (info.height) parts.push(`${info.height}p${info.fps ? Math.round(info.fps) : ''}`);
+
+  const codecs = [info.vcodec, info.acodec]
+    .filter((codec): codec is string => !!codec && codec !== 'none')
+    .map(codec => codec.split('.')[0]);
+  if (codecs.length > 0) parts.push(codecs.join('+'));
+
+  if (info.ext) parts.push(info.ext);
+  if (info.format_id) parts.push(`(format ${info.format_id})`);
+
+  return parts.join(' ') || 'best';
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+  TiB: 1024 ** 4,
+  KB: 1000,
+  MB: 1000 ** 2,
+  GB: 1000 ** 3
+};
+
+const POST_PROCESSOR_REGEX = /^\[(Merger|ExtractAudio|Fixup\w*|VideoConvertor|VideoRemuxer|ffmpeg|Metadata|EmbedSubtitle|EmbedThumbnail|SplitChapters|ModifyChapters)\]/;
+
+function parseSize(value: string): number | undefined {
+  const match = value.match(/([\d.]+)\s*([KMGT]?i?B)/);
+  if (!match || !SIZE_UNITS[match[2]]) return undefined;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2]]);
+}
+
+/**
+ * Parse a single line of `yt-dlp --newline --progress` output.
+ * Returns undefined for lines that carry no progress information.
+ */
+export function parseYtDlpProgress(line: string): DownloadProgress | undefined {
+  const trimmed = line.trim();
+
+  if (POST_PROCESSOR_REGEX.test(trimmed)) {
+    return { phase: 'post-processing' };
+  }
+
+  if (!trimmed.startsWith('[download]')) {
+    return /^\[[\w:]+\]/.test(trimmed) ? { phase: 'resolving' } : undefined;
+  }
+
+  // [download]  45.2% of ~  12.34MiB at    1.23MiB/s ETA 00:07 (frag 3/10)
+  const progressMatch = trimmed.match(/([\d.]+)%\s+of\s+~?\s*([\d.]+\s*[KMGT]?i?B)(?:.*?\bat\s+(\S+))?(?:.*?\bETA\s+(\S+))?/);
+  if (progressMatch) {
+    const percent = Math.min(100, parseFloat(progressMatch[1]));
+    const totalBytes = parseSize(progressMatch[2]);
+    return {
+      phase: 'downloading',
+      percent,
+      totalBytes,
+      downloadedBytes: totalBytes !== undefined ? Math.round((totalBytes * percent) / 100) : undefined,
+      speed: progressMatch[3],
+      eta: progressMatch[4]
+    };
+  }
+
+  return { phase: 'downloading' };
+}
+
+export interface FormatListResult {
+  success: boolean;
+  formats?: VideoFormat[];
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  platform: string;
+}
+
+export interface PlaylistEntry {
+  index: number;
+  url: string;
+  id?: string;
+  title?: string;
+  duration?: number;
+  uploader?: string;
+  upload_date?: string;
+}
+
+export interface PlaylistListResult {
+  success: boolean;
+  id?: string;
+  title?: string;
+  uploader?: string;
+  entries?: PlaylistEntry[];
+  error?: string;
+  errorCode?: ErrorCode;
+  platform: string;
+}
+
+export interface PlaylistListOptions {
+  /** yt-dlp `--playlist-items` spec, e.g. `1-10,15,-3:` */
+  items?: string;
+  /** Stop enumerating after this many entries when no item range is given */
+  limit?: number;
+  credentials?: PlatformCredentials;
+}
+
+// Flat entries report either a date or a unix timestamp, depending on the extractor
+function entryUploadDate(entry: YtDlpPlaylistEntry): string | undefined {
+  if (entry.upload_date) return entry.upload_date;
+  if (entry.timestamp) return new Date(entry.timestamp * 1000).toISOString().slice(0, 10).replace(/-/g, '');
+  return undefined;
+}
+
+/**
+ * Map a raw yt-dlp format entry onto VideoFormat. When the platform does not
+ * report a size, it is estimated from the total bitrate and the duration.
+ */
+function normalizeFormat(format: YtDlpFormat, duration?: number): VideoFormat {
+  const vcodec = format.vcodec && format.vcodec !== 'none' ? format.vcodec : undefined;
+  const acodec = format.acodec && format.acodec !== 'none' ? format.acodec : undefined;
+  const exactSize = format.filesize ?? format.filesize_approx;
+  const estimatedSize = !exactSize && format.tbr && duration
+    ? Math.round((format.tbr * 1000 / 8) * duration)
+    : undefined;
+
+  return {
+    format_id: format.format_id,
+    ext: format.ext,
+    resolution: format.width && format.height
+      ? `${format.width}x${format.height}`
+      : format.resolution,
+    width: format.width,
+    height: format.height,
+    fps: format.fps,
+    vcodec,
+    acodec,
+    tbr: format.tbr,
+    vbr: format.vbr,
+    abr: format.abr,
+    filesize: exactSize ?? estimatedSize,
+    filesize_estimated: format.filesize === undefined || format.filesize === null,
+    audio_only: !vcodec && !!acodec,
+    video_only: !!vcodec && !acodec,
+    format_note: format.format_note,
+    protocol: format.protocol,
+    url: format.url,
+    quality: format.quality
+  };
+}
+
+export type SubtitleSource = 'any' | 'manual' | 'automatic';
+
+export interface SubtitleResult {
+  success: boolean;
+  content?: string;
+  language?: string;
+  automatic?: boolean;
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  platform: string;
+}
+
+export interface SpeechTranscriptOptions {
+  /** Language spoken in the video, detected from the audio when omitted */
+  language?: string;
+  credentials?: PlatformCredentials;
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface SpeechTranscriptResult {
+  success: boolean;
+  segments?: TranscriptSegment[];
+  language?: string;
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  retryAfter?: number;
+  platform: string;
+}
+
+export type ThumbnailSource = 'auto' | 'platform' | 'frame';
+
+export interface ThumbnailCaptureResult {
+  success: boolean;
+  image?: Buffer;
+  contentType?: string;
+  source?: 'platform' | 'frame';
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  platform: string;
+}
+
+export type StoryboardMode = 'interval' | 'scene';
+
+export interface StoryboardOptions {
+  /** Number of frames to sample */
+  count: number;
+  /** Evenly spaced frames, or the start of the video plus its biggest scene changes */
+  mode: StoryboardMode;
+  /** Minimum ffmpeg scene score (0-1) for a cut in scene mode */
+  sceneThreshold?: number;
+  /** Frame width in pixels, the height follows the aspect ratio */
+  frameWidth: number;
+  /** Contact sheet columns, defaults to a roughly square grid */
+  columns?: number;
+  credentials?: PlatformCredentials;
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface StoryboardFrame {
+  index: number;
+  /** Seconds from the start of the video */
+  timestamp: number;
+  image: Buffer;
+}
+
+export interface StoryboardResult {
+  success: boolean;
+  frames?: StoryboardFrame[];
+  /** JPEG contact sheet of every frame */
+  sheet?: Buffer;
+  columns?: number;
+  rows?: number;
+  /** Video duration in seconds, measured on the downloaded file */
+  duration?: number;
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+  retryAfter?: number;
+  platform: string;
+}
+
+// Frames come from a small rendition, storyboards never need more
+const STORYBOARD_MAX_HEIGHT = 480;
+const DEFAULT_SCENE_THRESHOLD = 0.3;
+
 export class ProfessionalVideoDownloaderService {
   private readonly tempDir: string;
+  private readonly media: MediaProcessingService;
   private readonly userAgents: string[];
-  private readonly instagramHeaders: Record<string, string>;
-  private readonly tiktokHeaders: Record<string, string>;
-  private readonly facebookHeaders: Record<string, string>;
+  // One router per session proxy setup, so pool rotation state outlives single calls
+  private readonly proxyRouters = new Map<string, ProxyRouter>();
+  private readonly context: ExtractorContext;
+  private readonly speech?: SpeechTranscriber;
 
-  constructor(tempDir: string = '/tmp') {
+  constructor(tempDir: string = '/tmp', options: DownloaderOptions = {}) {
     this.tempDir = tempDir;
+    this.media = new MediaProcessingService(tempDir);
+    this.speech = options.speech && new SpeechTranscriber(options.speech);
     
     // Professional user agents for different platforms
     this.userAgents = [
@@ -41,219 +542,900 @@ export class ProfessionalVideoDownloaderService {
       'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
     ];
 
-    // Instagram-specific headers (based on research)
-    this.instagramHeaders = {
-      'X-IG-App-ID': '936619743392459', // Current Instagram web app ID
-      'X-FB-LSD': 'AVqbxe3J_YA',
-      'X-ASBD-ID': '129477',
-      'Sec-Fetch-Site': 'same-origin',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.5',
-      'Accept-Encoding': 'gzip, deflate',
-      'DNT': '1',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1'
-    };
+    // Lent to extractor modules for their own download methods
+    this.context = {
+      tempDir,
+      userAgent: () => this.getRandomUserAgent(),
+      proxyFor: (platform, credentials) => this.proxiesFor(credentials).proxyFor(platform),
+      rotateProxy: (failedProxy, credentials) => this.proxiesFor(credentials).rotate(failedProxy),
+      cleanup: (filePath) => this.cleanup(filePath),
+      downloadWithYtDlp: (url, options) => this.downloadWithYtDlp(url, this.detectPlatform(url), options)
+    };
+  }
+
+  detectPlatform(url: string): string {
+    return detectExtractor(url).platform;
+  }
+
+  /**
+   * Validate and clean up a URL given to a tool, following share links to the
+   * video they point at. Throws for URLs that cannot be downloaded, including
+   * names that resolve into the local or private network.
+   */
+  async normalizeUrl(input: string, credentials?: PlatformCredentials): Promise<MediaUrl> {
+    const parsed = parseMediaUrl(input);
+    if (!parsed.isShortLink) {
+      await assertPublicHost(new URL(parsed.url).hostname);
+      return parsed;
+    }
+
+    const resolved = await resolveShortLink(parsed.url, this.getRandomUserAgent(), this.proxiesFor(credentials).proxyFor(parsed.platform));
+    if (resolved === parsed.url) return parsed;
+
+    // A redirect off the platform (e.g. to a consent page) is no better than the short link
+    const target = parseMediaUrl(resolved);
+    return target.platform === parsed.platform ? target : parsed;
+  }
+
+  /**
+   * Feed `yt-dlp --newline --progress` stdout through parseYtDlpProgress.
+   */
+  private trackProgress(stdout: NodeJS.ReadableStream, onProgress: (progress: DownloadProgress) => void): void {
+    let pendingLine = '';
+    let downloadStarted = false;
+
+    onProgress({ phase: 'resolving' });
+
+    stdout.on('data', (data) => {
+      const lines = (pendingLine + data.toString()).split('\n');
+      pendingLine = lines.pop() || '';
+
+      for (const line of lines) {
+        const progress = parseYtDlpProgress(line);
+        // Extractor chatter between format downloads must not move the phase backwards
+        if (!progress || (progress.phase === 'resolving' && downloadStarted)) continue;
+        if (progress.phase !== 'resolving') downloadStarted = true;
+        onProgress(progress);
+      }
+    });
+  }
+
+  /**
+   * Run a yt-dlp call with the platform's headers, proxy and configured cookies. Cookies go
+   * through a private temp file that is removed once the call has finished. When
+   * the platform blocks the current IP, the call is repeated through the next
+   * pool proxy.
+   */
+  private async withNetwork<T extends { errorCode?: ErrorCode }>(
+    platform: string,
+    credentials: PlatformCredentials | undefined,
+    run: (networkArgs: string[], proxyUrl?: string) => Promise<T>
+  ): Promise<T> {
+    const configured = credentials?.cookies?.[platform];
+    const content = configured ? toNetscapeCookies(configured, getExtractor(platform).cookieDomain) : undefined;
+
+    if (configured && !content) {
+      // Never log the cookie values themselves
+      console.warn(`⚠️ Ignoring ${platform} cookies: provide cookies.txt content, a cookie header needs a known platform domain`);
+    }
+
+    const headerArgs = Object.entries(getExtractor(platform).headers || {})
+      .flatMap(([name, value]) => ['--add-header', `${name}:${value}`]);
+    const proxies = this.proxiesFor(credentials);
+    const attempts = proxies.attemptsFor(platform);
+    let result!: T;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const proxyUrl = proxies.proxyFor(platform);
+      const cookieFile = content ? await writeCookieFile(this.tempDir, content) : undefined;
+
+      try {
+        result = await run([...headerArgs, ...proxyArgs(proxyUrl), ...(cookieFile ? ['--cookies', cookieFile] : [])], proxyUrl);
+      } finally {
+        if (cookieFile) await removeCookieFile(cookieFile);
+      }
+
+      if (!isBlockedCode(result.errorCode)) break;
+      proxies.rotate(proxyUrl);
+    }
+
+    return result;
+  }
+
+  /**
+   * Summary of the outbound proxy setup without proxy credentials, for diagnostics.
+   */
+  describeProxy(credentials?: PlatformCredentials): string {
+    return this.proxiesFor(credentials).describe();
+  }
+
+  // Proxy settings come with each session's credentials, the downloader is shared between sessions
+  private proxiesFor(credentials?: PlatformCredentials): ProxyRouter {
+    const settings = credentials?.proxy || {};
+    const key = JSON.stringify(settings);
+    let router = this.proxyRouters.get(key);
+    if (!router) {
+      router = new ProxyRouter(settings);
+      this.proxyRouters.set(key, router);
+    }
+    return router;
+  }
+
+  canTranscribeSpeech(): boolean {
+    return !!this.speech;
+  }
+
+  describeSpeech(): string {
+    return this.speech?.describe() || 'not configured';
+  }
+
+  private getRandomUserAgent(): string {
+    return this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
+  }
+
+  // Headers for direct requests to a platform and its CDN
+  private platformHeaders(platform: string): Record<string, string> {
+    return { ...getExtractor(platform).headers, 'User-Agent': this.getRandomUserAgent() };
+  }
+
+  // Categorize a yt-dlp failure from its stderr, the platform's own patterns first
+  private classifyFailure(stderr: string, platform: string): { error?: string; errorCode: ErrorCode } {
+    const known = getExtractor(platform).errors?.find(({ pattern }) => pattern.test(stderr));
+    if (known) return { error: known.message, errorCode: known.code };
+
+    const errorCode = classifyYtDlpError(stderr);
+    const message = FAILURE_MESSAGES[errorCode];
+    return { error: message ? message(platform) : stderr.substring(0, 200) || undefined, errorCode };
+  }
+
+  private async downloadWithYtDlp(url: string, platform: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const { onProgress, signal, format } = options;
+    // Unique per run: parallel downloads share the temp dir and files are matched by prefix
+    const prefix = `${platform}_${randomUUID()}`;
+
+    return this.withNetwork(platform, options.credentials, (networkArgs) => new Promise((resolve) => {
+      // Entries of multi-video posts get their position in the name
+      const filename = `${prefix}_%(playlist_index&{}_|)s%(title)s.%(ext)s`;
+      const outputPath = path.join(this.tempDir, filename);
+      const userAgent = this.getRandomUserAgent();
+
+      // Platform-specific yt-dlp arguments
+      const baseArgs = [
+        '--no-playlist',
+        '--no-warnings',
+        '--ignore-errors',
+        '--no-check-certificates',
+        ...networkArgs,
+        '--user-agent', userAgent,
+        '--output', outputPath,
+        '--write-info-json',
+        // Lists the final path of every file this run produced; unlike --print it keeps the console output
+        '--print-to-file', 'after_move:filepath', downloadListPath(this.tempDir, prefix),
+        '--newline',
+        '--progress'
+      ];
+
+      // Platform-specific configurations
+      const platformArgs = [...getExtractor(platform).ytDlpArgs];
+
+      // Explicit format options replace the platform default selector
+      const formatArgs = buildFormatArgs(format);
+      if (formatArgs.length > 0) {
+        const formatIndex = platformArgs.indexOf('--format');
+        if (formatIndex !== -1) platformArgs.splice(formatIndex, 2);
+      }
+
+      const sectionArgs = options.section
+        ? [
+            '--download-sections', `*${options.section.start}-${options.section.end}`,
+            ...(options.accurateCuts ? ['--force-keyframes-at-cuts'] : [])
+          ]
+        : [];
+
+      const args = [...baseArgs, ...platformArgs, ...formatArgs, ...sectionArgs, url];
+
+      const process = spawn('yt-dlp', args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        signal
+      });
+
+      let stdout = '';
+      let stderr = '';
+
+      if (onProgress) this.trackProgress(process.stdout, onProgress);
+
+      process.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', async (code) => {
+        let result: DownloadResult = { success: false, error: 'Download cancelled', platform };
+        try {
+          if (!signal?.aborted) {
+            if (code === 0) {
+              result = await this.readYtDlpDownload(prefix, platform, stdout, format);
+            } else {
+              const { error, errorCode } = this.classifyFailure(stderr, platform);
+              result = {
+                success: false,
+                error: error || `yt-dlp failed with code ${code}`,
+                errorCode,
+                platform
+              };
+            }
+          }
+        } finally {
+          // Only the files handed back outlive the run: info.json, .part and .ytdl leftovers always go
+          await this.cleanupByPrefix(prefix, downloadedPaths(result));
+          resolve(result);
+        }
+      });
+
+      process.on('error', (error) => {
+        // Aborting kills the process, 'close' still fires and removes partial files
+        if (signal?.aborted) return;
+        resolve({
+          success: false,
+          error: `Process error: ${error.message}`,
+          platform
+        });
+      });
+    }));
+  }
+
+  // Names of the files a yt-dlp run reported through --print-to-file, in playlist order.
+  // Only these are trusted, anything else with the prefix is a leftover or intermediate file.
+  private async readDownloadList(prefix: string): Promise<string[]> {
+    const listed = await fs.readFile(downloadListPath(this.tempDir, prefix), 'utf-8').catch(() => '');
+    return [...new Set(listed.split('\n').map(line => line.trim()).filter(Boolean))]
+      .map(filePath => path.basename(filePath))
+      .filter(f => f.startsWith(`${prefix}_`))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  // Collect the files and metadata of a yt-dlp run that exited cleanly
+  private async readYtDlpDownload(prefix: string, platform: string, stdout: string, format?: FormatOptions): Promise<DownloadResult> {
+    try {
+      // Multi-video posts leave one file per video
+      const videoFiles = await this.readDownloadList(prefix);
+      const videoFile = videoFiles[0];
+
+      if (!videoFile) {
+        // yt-dlp skips files over --max-filesize and still exits cleanly
+        const tooLarge = /larger than max-filesize/i.test(stdout);
+        return {
+          success: false,
+          error: tooLarge ? `The video is larger than the ${format?.maxFilesizeMb} MB limit` : 'Downloaded file not found',
+          errorCode: tooLarge ? 'TOO_LARGE' : undefined,
+          platform
+        };
+      }
+
+      // Try to read metadata from info.json
+      let metadata: VideoMetadata = {
+        title: 'Downloaded Video',
+        uploader: 'Unknown',
+        duration: 0,
+        platform,
+        quality: 'best'
+      };
+
+      try {
+        const infoFile = videoFile.replace(/\.[^.]+$/, '.info.json');
+        const infoContent = await fs.readFile(path.join(this.tempDir, infoFile), 'utf-8');
+        const info: YtDlpOutput = JSON.parse(infoContent);
+
+        metadata = {
+          ...this.metadataFromInfo(info, platform),
+          title: info.title || metadata.title,
+          quality: describeQuality(info)
+        };
+      } catch (infoError) {
+        // Info file parsing failed, use defaults
+      }
+
+      const files: DownloadedFile[] | undefined = videoFiles.length > 1
+        ? videoFiles.map((f, position) => ({ filePath: path.join(this.tempDir, f), mediaType: 'video', index: position + 1 }))
+        : undefined;
+
+      return {
+        success: true,
+        filePath: path.join(this.tempDir, videoFile),
+        files,
+        metadata,
+        platform
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `File processing failed: ${error instanceof Error ? error.message : String(error)}`,
+        platform
+      };
+    }
+  }
+
+  async downloadVideo(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const extractor = detectExtractor(url);
+    const { platform } = extractor;
+    const methods = extractor.downloadMethods.filter(method => !method.appliesTo || method.appliesTo(url));
+    let result: DownloadResult = { success: false, error: 'No download method available for this URL', platform };
+
+    // Try the platform's methods in order, falling back to the next one on failure
+    for (const method of methods) {
+      console.log(`🔄 Attempting ${platform} download with ${method.name}...`);
+      options.onProgress?.({ phase: 'resolving' });
+      result = await method.download(url, this.context, options);
+
+      if (result.success) {
+        console.log(`✅ ${platform} ${method.name} download successful`);
+        const downloaded = { ...result, method: method.name };
+        return options.profile ? this.applyProfile(downloaded, options.profile, options) : downloaded;
+      }
+
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+
+      console.log(`⚠️ ${platform} ${method.name} failed: ${result.error}`);
+      if (method.final) break;
+    }
+
+    console.log(`❌ ${platform} download failed: ${result.error}`);
+    return result;
+  }
+
+  /**
+   * Transcode the videos of a finished download with a profile and check every
+   * output with ffprobe. Images of a post are kept as they are; the original
+   * files are removed whether transcoding succeeds or not.
+   */
+  private async applyProfile(result: DownloadResult, name: TranscodeProfileName, options: DownloadOptions): Promise<DownloadResult> {
+    const profile = getTranscodeProfile(name);
+    const { platform } = result;
+    const files = result.files || [{ filePath: result.filePath!, mediaType: 'video' as const, index: 1 }];
+    const outputs: string[] = [];
+    let probe: MediaProbe | undefined;
+
+    console.log(`🛠️ Transcoding ${platform} download with ${profile.name}...`);
+    options.onProgress?.({ phase: 'post-processing' });
+
+    try {
+      const transcoded: DownloadedFile[] = [];
+      for (const file of files) {
+        if (file.mediaType !== 'video') {
+          transcoded.push(file);
+          continue;
+        }
+        if (options.signal?.aborted) throw new Error('Download cancelled');
+
+        const output = `${file.filePath.replace(/\.[^./]+$/, '')}.${profile.name}.${profile.extension}`;
+        outputs.push(output);
+        await this.media.transcode(file.filePath, output, profile.args, options.signal);
+
+        const outputProbe = await this.media.probe(output);
+        const problem = validateTranscode(outputProbe, profile);
+        if (problem) throw new Error(`output failed validation: ${problem}`);
+
+        probe ??= outputProbe;
+        transcoded.push({ ...file, filePath: output });
+        await this.cleanup(file.filePath);
+      }
+
+      const video = probe?.streams.find(stream => stream.codec_type === 'video');
+      const audio = probe?.streams.find(stream => stream.codec_type === 'audio');
+
+      return {
+        ...result,
+        filePath: transcoded[0].filePath,
+        files: result.files ? transcoded : undefined,
+        metadata: result.metadata && {
+          ...result.metadata,
+          ext: profile.extension,
+          width: video?.width,
+          height: video?.height,
+          vcodec: video?.codec_name,
+          acodec: audio?.codec_name,
+          quality: `${profile.name} (transcoded from ${result.metadata.quality || 'original'})`
+        }
+      };
+    } catch (error) {
+      await Promise.all([
+        ...files.map(file => fs.unlink(file.filePath).catch(() => undefined)),
+        ...outputs.map(output => fs.unlink(output).catch(() => undefined))
+      ]);
+
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+      return {
+        success: false,
+        error: `Transcoding to ${profile.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: 'PROCESSING_FAILED',
+        platform
+      };
+    }
+  }
+
+  /**
+   * Download time ranges of a video, one file per range. Platforms downloaded
+   * with yt-dlp fetch only the sections; the rest, and section downloads that
+   * fail for reasons other than the video itself, download the whole video and
+   * trim it with ffmpeg.
+   */
+  async downloadClips(url: string, ranges: TimeRange[], options: DownloadOptions = {}): Promise<ClipDownloadResult> {
+    const extractor = detectExtractor(url);
+    const { platform } = extractor;
+    const [firstMethod] = extractor.downloadMethods.filter(method => !method.appliesTo || method.appliesTo(url));
+
+    if (firstMethod === ytDlpMethod) {
+      const result = await this.downloadSections(url, platform, ranges, options);
+      // A missing, private or blocked video fails the full download just the same
+      if (result.success || options.signal?.aborted || (result.errorCode && result.errorCode !== 'UNKNOWN')) {
+        return result;
+      }
+      console.log(`⚠️ ${platform} section download failed, trimming the full video instead: ${result.error}`);
+    }
+
+    return this.trimFullDownload(url, platform, ranges, options);
+  }
+
+  private async downloadSections(url: string, platform: string, ranges: TimeRange[], options: DownloadOptions): Promise<ClipDownloadResult> {
+    const clips: DownloadedClip[] = [];
+    let metadata: VideoMetadata | undefined;
+
+    try {
+      for (const range of ranges) {
+        const result = await this.downloadWithYtDlp(url, platform, { ...options, section: range });
+        if (!result.success || !result.filePath) {
+          await Promise.all(clips.map(clip => this.cleanup(clip.filePath)));
+          return { success: false, error: result.error, errorCode: result.errorCode, retryAfter: result.retryAfter, platform };
+        }
+
+        // Multi-video posts download every video's section, the clip is cut from the first
+        await Promise.all((result.files || []).slice(1).map(file => this.cleanup(file.filePath)));
+        clips.push({ filePath: result.filePath, range, duration: await this.media.probeDuration(result.filePath) });
+        metadata ??= result.metadata;
+      }
+    } catch (error) {
+      await Promise.all(clips.map(clip => this.cleanup(clip.filePath)));
+      return { success: false, error: `Section download failed: ${error instanceof Error ? error.message : String(error)}`, platform };
+    }
+
+    return { success: true, clips, method: 'download-sections', metadata, platform };
+  }
+
+  private async trimFullDownload(url: string, platform: string, ranges: TimeRange[], options: DownloadOptions): Promise<ClipDownloadResult> {
+    const download = await this.downloadVideo(url, options);
+    if (!download.success || !download.filePath) {
+      return { success: false, error: download.error, errorCode: download.errorCode, retryAfter: download.retryAfter, platform };
+    }
+
+    const source = download.filePath;
+    const clips: DownloadedClip[] = [];
+    options.onProgress?.({ phase: 'post-processing' });
+
+    try {
+      const sourceDuration = await this.media.probeDuration(source);
+
+      for (const [position, range] of ranges.entries()) {
+        if (options.signal?.aborted) throw new Error('Download cancelled');
+        if (range.start >= sourceDuration) {
+          throw new Error(`Clip ${position + 1} starts at ${range.start}s, after the end of the ${sourceDuration.toFixed(1)}s video`);
+        }
+
+        // Re-encoded clips are always H.264 MP4, stream copies keep the source container
+        const extension = options.accurateCuts ? '.mp4' : path.extname(source);
+        const filePath = path.join(this.tempDir, `${platform}_clip_${randomUUID()}_${position + 1}${extension}`);
+        await this.media.trimVideo(source, range, filePath, options.accurateCuts, options.signal).catch(async (error) => {
+          await fs.unlink(filePath).catch(() => undefined);
+          throw error;
+        });
+        clips.push({ filePath, range, duration: await this.media.probeDuration(filePath) });
+      }
+    } catch (error) {
+      await Promise.all(clips.map(clip => this.cleanup(clip.filePath)));
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+      return {
+        success: false,
+        error: `Trimming failed: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: 'PROCESSING_FAILED',
+        platform
+      };
+    } finally {
+      await Promise.all((download.files?.map(file => file.filePath) || [source]).map(filePath => this.cleanup(filePath)));
+    }
+
+    return { success: true, clips, method: 'ffmpeg', metadata: download.metadata, platform };
+  }
+
+  /**
+   * Download the best audio stream and encode it with the requested format,
+   * bitrate, channels, sample rate and loudness normalization, tagged with the
+   * video's metadata.
+   */
+  async downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const platform = this.detectPlatform(url);
+    const audio = resolveAudioOptions(options.audio);
+    const source = await this.downloadAudioSource(url, platform, options);
+    if (!source.success || !source.filePath) return source;
+
+    const output = `${source.filePath.replace(/\.[^./]+$/, '')}.encoded.${audio.format}`;
+    const coverPath = audio.embedMetadata && supportsCoverArt(audio.format) && source.metadata?.thumbnail_url
+      ? await this.downloadCoverArt(source.metadata.thumbnail_url, platform, source.filePath, options.credentials)
+      : undefined;
+
+    options.onProgress?.({ phase: 'post-processing' });
+
+    try {
+      await this.media.encodeAudio(
+        source.filePath,
+        output,
+        audio,
+        audio.embedMetadata && source.metadata ? audioTags(source.metadata) : {},
+        coverPath,
+        options.signal
+      );
+    } catch (error) {
+      await fs.unlink(output).catch(() => undefined);
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+      return {
+        success: false,
+        error: `Audio encoding failed: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: 'PROCESSING_FAILED',
+        metadata: source.metadata,
+        platform
+      };
+    } finally {
+      await this.cleanup(source.filePath);
+      if (coverPath) await fs.unlink(coverPath).catch(() => undefined);
+    }
+
+    return {
+      success: true,
+      filePath: output,
+      metadata: source.metadata && {
+        ...source.metadata,
+        ext: audio.format,
+        vcodec: undefined,
+        width: undefined,
+        height: undefined,
+        fps: undefined,
+        quality: describeAudio(audio)
+      },
+      platform,
+      method: 'yt-dlp'
+    };
+  }
+
+  /**
+   * Transcribe the spoken audio of a video with the local speech-to-text
+   * backend, for videos that have no captions at all.
+   */
+  async transcribeSpeech(url: string, options: SpeechTranscriptOptions = {}): Promise<SpeechTranscriptResult> {
+    const platform = this.detectPlatform(url);
+    if (!this.speech) {
+      return { success: false, error: 'Speech-to-text is not configured on this server', platform };
+    }
+
+    const audio = await this.downloadAudio(url, {
+      credentials: options.credentials,
+      signal: options.signal,
+      onProgress: options.onProgress,
+      audio: { format: 'wav', channels: 1, sampleRate: SPEECH_SAMPLE_RATE, embedMetadata: false }
+    });
+
+    if (!audio.success || !audio.filePath) {
+      return { success: false, error: audio.error, errorCode: audio.errorCode, retryAfter: audio.retryAfter, metadata: audio.metadata, platform };
+    }
+
+    try {
+      const { segments, language } = await this.speech.transcribe(audio.filePath, options.language, options.signal);
+      return { success: true, segments, language, metadata: audio.metadata, platform };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+      return {
+        success: false,
+        error: `Speech transcription failed: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: 'PROCESSING_FAILED',
+        metadata: audio.metadata,
+        platform
+      };
+    } finally {
+      await this.cleanup(audio.filePath);
+    }
+  }
+
+  // Fetch a thumbnail as JPEG cover art next to the audio file, undefined when that fails
+  private async downloadCoverArt(thumbnailUrl: string, platform: string, audioPath: string, credentials?: PlatformCredentials): Promise<string | undefined> {
+    try {
+      const response = await proxyFetch(thumbnailUrl, {
+        headers: this.platformHeaders(platform),
+        signal: AbortSignal.timeout(COVER_ART_TIMEOUT_MS)
+      }, this.proxiesFor(credentials).proxyFor(platform));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      // Platforms often serve WebP, which audio containers do not take as cover art
+      const cover = await this.media.convertImage(Buffer.from(await response.arrayBuffer()), 'jpeg');
+      const coverPath = `${audioPath.replace(/\.[^./]+$/, '')}.cover.jpg`;
+      await fs.writeFile(coverPath, cover);
+      return coverPath;
+    } catch (error) {
+      console.warn(`Failed to fetch cover art from ${thumbnailUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  private async downloadAudioSource(url: string, platform: string, options: DownloadOptions): Promise<DownloadResult> {
+    const { onProgress, signal } = options;
+    const prefix = `${platform}_audio_${randomUUID()}`;
+    
+    return this.withNetwork(platform, options.credentials, (networkArgs) => new Promise((resolve) => {
+      const filename = `${prefix}_%(title)s.%(ext)s`;
+      const outputPath = path.join(this.tempDir, filename);
+      const userAgent = this.getRandomUserAgent();
+
+      // Encoding happens afterwards with ffmpeg, fetch the best audio as served
+      const args = [
+        '--format', 'bestaudio/best',
+        '--no-playlist',
+        '--no-warnings',
+        '--ignore-errors',
+        ...networkArgs,
+        '--user-agent', userAgent,
+        '--output', outputPath,
+        '--write-info-json',
+        '--print-to-file', 'after_move:filepath', downloadListPath(this.tempDir, prefix),
+        '--newline',
+        '--progress',
+        url
+      ];
+
+      const process = spawn('yt-dlp', args, { signal });
+      let stderr = '';
+
+      if (onProgress) this.trackProgress(process.stdout, onProgress);
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('error', (error) => {
+        if (signal?.aborted) return;
+        resolve({
+          success: false,
+          error: `Process error: ${error.message}`,
+          platform
+        });
+      });
+
+      process.on('close', async (code) => {
+        let result: DownloadResult = { success: false, error: 'Download cancelled', platform };
+        try {
+          if (!signal?.aborted) {
+            if (code === 0) {
+              result = await this.readYtDlpAudio(prefix, platform);
+            } else {
+              const { error, errorCode } = this.classifyFailure(stderr, platform);
+              result = {
+                success: false,
+                error: `Audio extraction failed: ${error || `yt-dlp exited with code ${code}`}`,
+                errorCode,
+                platform
+              };
+            }
+          }
+        } finally {
+          await this.cleanupByPrefix(prefix, downloadedPaths(result));
+          resolve(result);
+        }
+      });
+    }));
+  }
+
+  // Collect the audio file and metadata of a yt-dlp run that exited cleanly
+  private async readYtDlpAudio(prefix: string, platform: string): Promise<DownloadResult> {
+    try {
+      const [audioFile] = await this.readDownloadList(prefix);
+
+      if (!audioFile) {
+        return {
+          success: false,
+          error: 'Audio file not found after extraction',
+          platform
+        };
+      }
+
+      let metadata: VideoMetadata | undefined;
+      try {
+        const infoFile = audioFile.replace(/\.[^.]+$/, '.info.json');
+        const info: YtDlpOutput = JSON.parse(await fs.readFile(path.join(this.tempDir, infoFile), 'utf-8'));
+        metadata = this.metadataFromInfo(info, platform);
+      } catch {
+        // Info file missing or unreadable, the audio is still usable without metadata
+      }
+
+      return {
+        success: true,
+        filePath: path.join(this.tempDir, audioFile),
+        metadata,
+        platform
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Audio processing failed: ${error instanceof Error ? error.message : String(error)}`,
+        platform
+      };
+    }
+  }
+
+  async getVideoMetadata(url: string, credentials?: PlatformCredentials): Promise<DownloadResult> {
+    const extractor = detectExtractor(url);
+    const { platform } = extractor;
 
-    // TikTok-specific headers
-    this.tiktokHeaders = {
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.5',
-      'Accept-Encoding': 'gzip, deflate',
-      'DNT': '1',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Site': 'none'
-    };
+    // Platform-specific metadata lookups first
+    for (const method of extractor.downloadMethods) {
+      if (!method.metadata || (method.appliesTo && !method.appliesTo(url))) continue;
 
-    // Facebook-specific headers
-    this.facebookHeaders = {
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.5',
-      'Accept-Encoding': 'gzip, deflate',
-      'DNT': '1',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate'
-    };
-  }
+      const result = await method.metadata(url, this.context, credentials);
+      if ((result.success && result.metadata) || method.final) return result;
+    }
 
-  private detectPlatform(url: string): string {
-    if (url.includes('instagram.com')) return 'instagram';
-    if (url.includes('tiktok.com')) return 'tiktok';
-    if (url.includes('facebook.com') || url.includes('fb.watch')) return 'facebook';
-    if (url.includes('youtube.com') || url.includes('youtu.be')) return 'youtube';
-    if (url.includes('linkedin.com')) return 'linkedin';
-    return 'unknown';
-  }
+    // Fallback to yt-dlp for metadata
+    const { info, error, errorCode } = await this.dumpInfo(url, credentials);
 
-  private getRandomUserAgent(): string {
-    return this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
+    if (!info) {
+      return { success: false, error, errorCode, platform };
+    }
+
+    return {
+      success: true,
+      metadata: this.metadataFromInfo(info, platform),
+      platform
+    };
   }
 
-  private async downloadWithInstagramGraphQL(url: string): Promise<DownloadResult> {
-    try {
-      // Extract Instagram post ID
-      const regex = /instagram\.com\/(?:[A-Za-z0-9_.]+\/)?(p|reels|reel|stories)\/([A-Za-z0-9-_]+)/;
-      const match = url.match(regex);
-      
-      if (!match || !match[2]) {
-        return { success: false, error: 'Invalid Instagram URL format', platform: 'instagram' };
-      }
+  async listFormats(url: string, credentials?: PlatformCredentials): Promise<FormatListResult> {
+    const platform = this.detectPlatform(url);
+    const { info, error, errorCode } = await this.dumpInfo(url, credentials);
 
-      const shortcode = match[2];
-      const userAgent = this.getRandomUserAgent();
+    if (!info) {
+      return { success: false, error, errorCode, platform };
+    }
 
-      // Build GraphQL endpoint
-      const graphqlUrl = new URL('https://www.instagram.com/api/graphql');
-      graphqlUrl.searchParams.set('variables', JSON.stringify({ shortcode }));
-      graphqlUrl.searchParams.set('doc_id', '10015901848480474');
-      graphqlUrl.searchParams.set('lsd', 'AVqbxe3J_YA');
-
-      // Make GraphQL request
-      const response = await fetch(graphqlUrl.toString(), {
-        method: 'POST',
-        headers: {
-          'User-Agent': userAgent,
-          'Content-Type': 'application/x-www-form-urlencoded',
-          ...this.instagramHeaders
-        }
-      });
+    const formats = (info.formats || [])
+      .filter(format => format.format_id && format.ext !== 'mhtml') // mhtml entries are storyboard images
+      .map(format => normalizeFormat(format, info.duration));
 
-      if (!response.ok) {
-        throw new Error(`GraphQL request failed: ${response.status}`);
-      }
+    return {
+      success: true,
+      formats,
+      metadata: this.metadataFromInfo(info, platform),
+      platform
+    };
+  }
+
+  /**
+   * Enumerate a playlist, channel or profile with `--flat-playlist`, which lists
+   * the entries without resolving each one. A single video comes back as a
+   * one-entry list.
+   */
+  listPlaylistEntries(url: string, options: PlaylistListOptions = {}): Promise<PlaylistListResult> {
+    const platform = this.detectPlatform(url);
 
-      const data = await response.json();
-      const media = data?.data?.xdt_shortcode_media;
+    return this.withNetwork(platform, options.credentials, (networkArgs) => new Promise((resolve) => {
+      const args = [
+        '--flat-playlist',
+        '--dump-single-json',
+        '--yes-playlist',
+        '--no-warnings',
+        '--ignore-errors',
+        ...networkArgs,
+        '--user-agent', this.getRandomUserAgent()
+      ];
 
-      if (!media) {
-        return { success: false, error: 'No media data found in GraphQL response', platform: 'instagram' };
+      if (options.items) {
+        args.push('--playlist-items', options.items);
+      } else if (options.limit) {
+        args.push('--playlist-end', String(options.limit));
       }
 
-      // Extract video URL or image URL
-      const videoUrl = media.video_url;
-      const imageUrl = media.display_url;
-      const downloadUrl = videoUrl || imageUrl;
+      args.push(url);
 
-      if (!downloadUrl) {
-        return { success: false, error: 'No download URL found in media data', platform: 'instagram' };
-      }
+      const process = spawn('yt-dlp', args);
+      let stdout = '';
+      let stderr = '';
 
-      // Download the media file
-      const filename = `instagram_${shortcode}_${Date.now()}.${videoUrl ? 'mp4' : 'jpg'}`;
-      const filePath = path.join(this.tempDir, filename);
+      process.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
 
-      const mediaResponse = await fetch(downloadUrl, {
-        headers: { 'User-Agent': userAgent }
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
       });
 
-      if (!mediaResponse.ok) {
-        throw new Error(`Media download failed: ${mediaResponse.status}`);
-      }
+      process.on('close', (code) => {
+        if (code !== 0 || !stdout.trim()) {
+          const { error, errorCode } = this.classifyFailure(stderr, platform);
+          resolve({ success: false, error: error || 'Failed to list playlist entries', errorCode, platform });
+          return;
+        }
 
-      const buffer = await mediaResponse.arrayBuffer();
-      await fs.writeFile(filePath, Buffer.from(buffer));
-
-      const metadata: VideoMetadata = {
-        title: media.edge_media_to_caption?.edges[0]?.node?.text || 'Instagram Media',
-        uploader: media.owner?.username || 'Unknown',
-        duration: media.video_duration || 0,
-        view_count: media.video_view_count || media.video_play_count,
-        description: media.edge_media_to_caption?.edges[0]?.node?.text,
-        thumbnail_url: media.thumbnail_src,
-        direct_url: downloadUrl,
-        platform: 'instagram',
-        quality: videoUrl ? 'original' : 'image'
-      };
+        let info: YtDlpPlaylistOutput & Partial<YtDlpOutput>;
+        try {
+          info = JSON.parse(stdout.trim());
+        } catch (parseError) {
+          resolve({ success: false, error: 'Failed to parse playlist listing', platform });
+          return;
+        }
 
-      return {
-        success: true,
-        filePath,
-        metadata,
-        platform: 'instagram'
-      };
+        const rawEntries: YtDlpPlaylistEntry[] = info._type === 'playlist'
+          ? (info.entries || [])
+          : [{ ...info, playlist_index: 1 }];
+
+        const entries = rawEntries
+          .map((entry, position): PlaylistEntry | undefined => {
+            // Flat entries may carry an API URL in `url`, prefer the page URL when present
+            const entryUrl = entry.webpage_url || entry.url;
+            if (!entryUrl || !/^https?:\/\//.test(entryUrl)) return undefined;
+
+            return {
+              index: entry.playlist_index ?? position + 1,
+              url: entryUrl,
+              id: entry.id,
+              title: entry.title,
+              duration: entry.duration,
+              uploader: entry.uploader || entry.channel,
+              upload_date: entryUploadDate(entry)
+            };
+          })
+          .filter((entry): entry is PlaylistEntry => entry !== undefined);
 
-    } catch (error) {
-      return {
-        success: false,
-        error: `Instagram GraphQL download failed: ${error instanceof Error ? error.message : String(error)}`,
-        platform: 'instagram'
-      };
-    }
+        resolve({
+          success: true,
+          id: info.id,
+          title: info.title,
+          uploader: info.uploader || info.channel,
+          entries,
+          platform
+        });
+      });
+
+      process.on('error', (error) => {
+        resolve({ success: false, error: `Process error: ${error.message}`, platform });
+      });
+    }));
   }
 
-  private async downloadWithYtDlp(url: string, platform: string): Promise<DownloadResult> {
-    return new Promise((resolve) => {
-      const filename = `${platform}_${Date.now()}_%(title)s.%(ext)s`;
-      const outputPath = path.join(this.tempDir, filename);
-      const userAgent = this.getRandomUserAgent();
+  /**
+   * Run `yt-dlp --dump-json` and parse the info dictionary without downloading anything.
+   */
+  private dumpInfo(url: string, credentials?: PlatformCredentials): Promise<{ info?: YtDlpOutput; error?: string; errorCode?: ErrorCode }> {
+    const platform = this.detectPlatform(url);
 
-      // Platform-specific yt-dlp arguments
-      const baseArgs = [
+    return this.withNetwork(platform, credentials, (networkArgs) => new Promise((resolve) => {
+      const userAgent = this.getRandomUserAgent();
+      const args = [
+        '--dump-json',
         '--no-playlist',
         '--no-warnings',
         '--ignore-errors',
-        '--no-check-certificates',
+        ...networkArgs,
         '--user-agent', userAgent,
-        '--output', outputPath,
-        '--write-info-json'
+        url
       ];
 
-      // Add platform-specific configurations
-      let platformArgs: string[] = [];
-      
-      switch (platform) {
-        case 'youtube':
-          platformArgs = [
-            '--format', 'best[height<=720]/best',
-            '--sleep-interval', '2',
-            '--max-sleep-interval', '8',
-            '--add-header', 'Accept:text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            '--add-header', 'Accept-Language:en-US,en;q=0.5',
-            '--add-header', 'DNT:1',
-            '--add-header', 'Connection:keep-alive'
-          ];
-          break;
-
-        case 'tiktok':
-          platformArgs = [
-            '--format', 'best',
-            '--sleep-interval', '1',
-            '--max-sleep-interval', '4'
-          ];
-          break;
-
-        case 'facebook':
-          platformArgs = [
-            '--format', 'best',
-            '--sleep-interval', '3',
-            '--max-sleep-interval', '10',
-            '--add-header', 'Accept:text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'
-          ];
-          break;
-
-        case 'linkedin':
-          platformArgs = [
-            '--format', 'best',
-            '--sleep-interval', '2',
-            '--max-sleep-interval', '6'
-          ];
-          break;
-
-        default:
-          platformArgs = ['--format', 'best'];
-      }
-
-      const args = [...baseArgs, ...platformArgs, url];
-
-      const process = spawn('yt-dlp', args, {
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-
+      const process = spawn('yt-dlp', args);
       let stdout = '';
       let stderr = '';
 
@@ -265,151 +1447,47 @@ export class ProfessionalVideoDownloaderService {
         stderr += data.toString();
       });
 
-      process.on('close', async (code) => {
-        if (code === 0) {
+      process.on('close', (code) => {
+        if (code === 0 && stdout.trim()) {
           try {
-            // Find the downloaded file
-            const files = await fs.readdir(this.tempDir);
-            const videoFile = files.find(f => 
-              f.includes(platform) && 
-              f.includes(Date.now().toString().substring(0, 8)) &&
-              !f.endsWith('.info.json')
-            );
-
-            if (!videoFile) {
-              resolve({
-                success: false,
-                error: 'Downloaded file not found',
-                platform
-              });
-              return;
-            }
-
-            const filePath = path.join(this.tempDir, videoFile);
-            
-            // Try to read metadata from info.json
-            let metadata: VideoMetadata = {
-              title: 'Downloaded Video',
-              uploader: 'Unknown',
-              duration: 0,
-              platform,
-              quality: 'best'
-            };
-
-            try {
-              const infoFile = videoFile.replace(/\.[^.]+$/, '.info.json');
-              const infoPath = path.join(this.tempDir, infoFile);
-              const infoContent = await fs.readFile(infoPath, 'utf-8');
-              const info = JSON.parse(infoContent);
-
-              metadata = {
-                title: info.title || metadata.title,
-                uploader: info.uploader || info.channel || metadata.uploader,
-                duration: info.duration || metadata.duration,
-                view_count: info.view_count,
-                upload_date: info.upload_date,
-                description: info.description,
-                thumbnail_url: info.thumbnail,
-                direct_url: info.url,
-                platform,
-                quality: info.format_id || 'best'
-              };
-            } catch (infoError) {
-              // Info file parsing failed, use defaults
-            }
-
-            resolve({
-              success: true,
-              filePath,
-              metadata,
-              platform
-            });
-
-          } catch (error) {
-            resolve({
-              success: false,
-              error: `File processing failed: ${error instanceof Error ? error.message : String(error)}`,
-              platform
-            });
+            // Multi-video posts print one JSON object per video, describe the first
+            resolve({ info: JSON.parse(stdout.trim().split('\n')[0]) });
+          } catch (parseError) {
+            resolve({ error: 'Failed to parse video metadata' });
           }
         } else {
-          // Analyze error for specific issues
-          let errorMessage = `yt-dlp failed with code ${code}`;
-          
-          if (stderr.includes('Sign in to confirm you\'re not a bot')) {
-            errorMessage = 'YouTube bot detection triggered. Try again later or use different IP.';
-          } else if (stderr.includes('login required') || stderr.includes('authentication')) {
-            errorMessage = `${platform} requires authentication. This content may be private or restricted.`;
-          } else if (stderr.includes('rate limit') || stderr.includes('429')) {
-            errorMessage = `Rate limited by ${platform}. Please wait before trying again.`;
-          } else if (stderr.includes('not available') || stderr.includes('404')) {
-            errorMessage = 'Video not found or has been removed.';
-          } else if (stderr) {
-            errorMessage = stderr.substring(0, 200);
-          }
-
-          resolve({
-            success: false,
-            error: errorMessage,
-            platform
-          });
+          const { error, errorCode } = this.classifyFailure(stderr, platform);
+          resolve({ error: error || 'Failed to get video metadata', errorCode });
         }
       });
 
       process.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Process error: ${error.message}`,
-          platform
-        });
+        resolve({ error: `Process error: ${error.message}` });
       });
-    });
+    }));
   }
 
-  async downloadVideo(url: string): Promise<DownloadResult> {
+  async extractSubtitles(url: string, language: string = 'en', source: SubtitleSource = 'any', credentials?: PlatformCredentials): Promise<SubtitleResult> {
     const platform = this.detectPlatform(url);
+    const prefix = `${platform}_subs_${randomUUID()}`;
 
-    // For Instagram, try GraphQL method first (higher success rate)
-    if (platform === 'instagram') {
-      console.log('🔄 Attempting Instagram GraphQL download...');
-      const graphqlResult = await this.downloadWithInstagramGraphQL(url);
-      
-      if (graphqlResult.success) {
-        console.log('✅ Instagram GraphQL download successful');
-        return graphqlResult;
-      }
-      
-      console.log('⚠️ Instagram GraphQL failed, falling back to yt-dlp...');
-    }
-
-    // For all platforms (including Instagram fallback), use enhanced yt-dlp
-    console.log(`🔄 Attempting ${platform} download with yt-dlp...`);
-    const ytdlpResult = await this.downloadWithYtDlp(url, platform);
-
-    if (ytdlpResult.success) {
-      console.log(`✅ ${platform} yt-dlp download successful`);
-    } else {
-      console.log(`❌ ${platform} download failed: ${ytdlpResult.error}`);
-    }
-
-    return ytdlpResult;
-  }
-
-  async downloadAudio(url: string): Promise<DownloadResult> {
-    const platform = this.detectPlatform(url);
-    
-    return new Promise((resolve) => {
-      const filename = `${platform}_audio_${Date.now()}_%(title)s.%(ext)s`;
-      const outputPath = path.join(this.tempDir, filename);
+    return this.withNetwork(platform, credentials, (networkArgs) => new Promise((resolve) => {
+      const outputPath = path.join(this.tempDir, `${prefix}.%(ext)s`);
       const userAgent = this.getRandomUserAgent();
 
+      const subtitleArgs: string[] = [];
+      if (source !== 'automatic') subtitleArgs.push('--write-subs');
+      if (source !== 'manual') subtitleArgs.push('--write-auto-subs');
+
       const args = [
-        '--extract-audio',
-        '--audio-format', 'mp3',
-        '--audio-quality', '192K',
+        '--skip-download',
+        ...subtitleArgs,
+        '--sub-langs', `${language}.*`,
+        '--sub-format', 'vtt/srt/best',
+        '--convert-subs', 'vtt',
         '--no-playlist',
         '--no-warnings',
-        '--ignore-errors',
+        ...networkArgs,
         '--user-agent', userAgent,
         '--output', outputPath,
         '--write-info-json',
@@ -424,70 +1502,95 @@ export class ProfessionalVideoDownloaderService {
       });
 
       process.on('close', async (code) => {
-        if (code === 0) {
-          try {
-            const files = await fs.readdir(this.tempDir);
-            const audioFile = files.find(f => 
-              f.includes(`${platform}_audio`) && 
-              f.includes(Date.now().toString().substring(0, 8)) &&
-              f.endsWith('.mp3')
-            );
-
-            if (audioFile) {
-              resolve({
-                success: true,
-                filePath: path.join(this.tempDir, audioFile),
-                platform
-              });
-            } else {
-              resolve({
-                success: false,
-                error: 'Audio file not found after extraction',
-                platform
-              });
-            }
-          } catch (error) {
+        if (code !== 0) {
+          await this.cleanupByPrefix(prefix);
+          const { error, errorCode } = this.classifyFailure(stderr, platform);
+          resolve({
+            success: false,
+            error: `Subtitle extraction failed: ${error || `yt-dlp exited with code ${code}`}`,
+            errorCode,
+            platform
+          });
+          return;
+        }
+
+        try {
+          const files = await fs.readdir(this.tempDir);
+          const subtitleFiles = files.filter(f => f.startsWith(`${prefix}.`) && f.endsWith('.vtt'));
+
+          // Prefer an exact language match (en) over variants (en-US, en-orig)
+          const subtitleFile =
+            subtitleFiles.find(f => f === `${prefix}.${language}.vtt`) || subtitleFiles[0];
+
+          if (!subtitleFile) {
+            await this.cleanupByPrefix(prefix);
             resolve({
               success: false,
-              error: `Audio processing failed: ${error instanceof Error ? error.message : String(error)}`,
+              error: `No ${source === 'any' ? '' : `${source} `}captions available for language "${language}"`,
+              errorCode: 'NOT_FOUND',
               platform
             });
+            return;
           }
-        } else {
+
+          const subtitleLanguage = subtitleFile.slice(prefix.length + 1, -'.vtt'.length);
+          const content = await fs.readFile(path.join(this.tempDir, subtitleFile), 'utf-8');
+          let metadata: VideoMetadata | undefined;
+          let automatic = source === 'automatic';
+
+          try {
+            const infoContent = await fs.readFile(path.join(this.tempDir, `${prefix}.info.json`), 'utf-8');
+            const info: YtDlpOutput = JSON.parse(infoContent);
+            metadata = this.metadataFromInfo(info, platform);
+            automatic = !info.subtitles?.[subtitleLanguage];
+          } catch {
+            // Info file missing or unreadable, metadata stays undefined
+          }
+
+          await this.cleanupByPrefix(prefix);
+          resolve({
+            success: true,
+            content,
+            language: subtitleLanguage,
+            automatic,
+            metadata,
+            platform
+          });
+        } catch (error) {
+          await this.cleanupByPrefix(prefix);
           resolve({
             success: false,
-            error: `Audio extraction failed: ${stderr.substring(0, 200)}`,
+            error: `Subtitle processing failed: ${error instanceof Error ? error.message : String(error)}`,
             platform
           });
         }
       });
-    });
+
+      process.on('error', (error) => {
+        resolve({
+          success: false,
+          error: `Process error: ${error.message}`,
+          platform
+        });
+      });
+    }));
   }
 
-  async getVideoMetadata(url: string): Promise<DownloadResult> {
+  /**
+   * Resolve a direct, ffmpeg-readable media URL for a video without downloading it.
+   * Stream URLs can be tied to the requesting IP, so the proxy used is returned too.
+   */
+  private resolveStreamUrl(url: string, credentials?: PlatformCredentials): Promise<{ streamUrl?: string; proxyUrl?: string; error?: string; errorCode?: ErrorCode }> {
     const platform = this.detectPlatform(url);
 
-    // For Instagram, try GraphQL method for metadata
-    if (platform === 'instagram') {
-      const graphqlResult = await this.downloadWithInstagramGraphQL(url);
-      if (graphqlResult.success && graphqlResult.metadata) {
-        return {
-          success: true,
-          metadata: graphqlResult.metadata,
-          platform: 'instagram'
-        };
-      }
-    }
-
-    // Fallback to yt-dlp for metadata
-    return new Promise((resolve) => {
-      const userAgent = this.getRandomUserAgent();
+    return this.withNetwork(platform, credentials, (networkArgs, proxyUrl) => new Promise((resolve) => {
       const args = [
-        '--dump-json',
+        '--get-url',
+        '--format', 'best[vcodec!=none]/best',
         '--no-playlist',
         '--no-warnings',
-        '--ignore-errors',
-        '--user-agent', userAgent,
+        ...networkArgs,
+        '--user-agent', this.getRandomUserAgent(),
         url
       ];
 
@@ -504,43 +1607,220 @@ export class ProfessionalVideoDownloaderService {
       });
 
       process.on('close', (code) => {
-        if (code === 0 && stdout.trim()) {
-          try {
-            const info = JSON.parse(stdout.trim());
-            const metadata: VideoMetadata = {
-              title: info.title || 'Unknown Title',
-              uploader: info.uploader || info.channel || 'Unknown',
-              duration: info.duration || 0,
-              view_count: info.view_count,
-              upload_date: info.upload_date,
-              description: info.description,
-              thumbnail_url: info.thumbnail,
-              direct_url: info.url,
-              platform,
-              quality: info.format_id || 'unknown'
-            };
+        const streamUrl = stdout.trim().split('\n')[0];
+        if (code === 0 && streamUrl) {
+          resolve({ streamUrl, proxyUrl });
+          return;
+        }
 
-            resolve({
-              success: true,
-              metadata,
-              platform
-            });
-          } catch (parseError) {
-            resolve({
-              success: false,
-              error: 'Failed to parse video metadata',
-              platform
-            });
+        const { error, errorCode } = this.classifyFailure(stderr, platform);
+        resolve({ error: error || 'Failed to resolve stream URL', errorCode });
+      });
+
+      process.on('error', (error) => resolve({ error: `Process error: ${error.message}` }));
+    }));
+  }
+
+  async extractThumbnail(url: string, source: ThumbnailSource = 'auto', timestamp: number = 0, credentials?: PlatformCredentials): Promise<ThumbnailCaptureResult> {
+    const platform = this.detectPlatform(url);
+    const metadataResult = await this.getVideoMetadata(url, credentials);
+    const metadata = metadataResult.metadata;
+    let platformError: string | undefined;
+    let platformErrorCode: ErrorCode | undefined;
+
+    if (source !== 'frame') {
+      if (metadata?.thumbnail_url) {
+        const timeout = AbortSignal.timeout(THUMBNAIL_TIMEOUT_MS);
+        try {
+          const response = await proxyFetch(metadata.thumbnail_url, {
+            headers: this.platformHeaders(platform),
+            signal: timeout
+          }, this.proxiesFor(credentials).proxyFor(platform));
+
+          if (!response.ok) {
+            throw new MediaError(classifyHttpStatus(response.status), `Thumbnail request failed: ${response.status}`);
           }
-        } else {
-          resolve({
-            success: false,
-            error: stderr.substring(0, 200) || 'Failed to get video metadata',
+
+          return {
+            success: true,
+            image: Buffer.from(await response.arrayBuffer()),
+            contentType: response.headers.get('content-type') || 'image/jpeg',
+            source: 'platform',
+            metadata,
             platform
-          });
+          };
+        } catch (error) {
+          if (timeout.aborted) {
+            platformError = `Thumbnail request timed out after ${THUMBNAIL_TIMEOUT_MS / 1000}s`;
+            platformErrorCode = 'TIMEOUT';
+          } else {
+            platformError = error instanceof Error ? error.message : String(error);
+            platformErrorCode = error instanceof MediaError ? error.code : undefined;
+          }
         }
-      });
+      } else {
+        platformError = metadataResult.error || 'Platform did not provide a thumbnail';
+        platformErrorCode = metadataResult.errorCode || (metadata ? 'NOT_FOUND' : undefined);
+      }
+
+      if (source === 'platform') {
+        return { success: false, error: platformError, errorCode: platformErrorCode, metadata, platform };
+      }
+      console.log(`⚠️ Platform thumbnail unavailable (${platformError}), capturing frame with ffmpeg...`);
+    }
+
+    // Instagram GraphQL metadata already carries the CDN URL of the media itself
+    const { streamUrl, proxyUrl, errorCode } = metadata?.quality === 'original' && metadata.direct_url
+      ? { streamUrl: metadata.direct_url, proxyUrl: this.proxiesFor(credentials).proxyFor(platform), errorCode: undefined }
+      : await this.resolveStreamUrl(url, credentials);
+
+    if (!streamUrl) {
+      return {
+        success: false,
+        error: `Could not resolve a video stream for frame capture${platformError ? ` (${platformError})` : ''}`,
+        errorCode: errorCode || platformErrorCode,
+        metadata,
+        platform
+      };
+    }
+
+    try {
+      const image = await this.media.extractFrame(streamUrl, timestamp, 'jpeg', {
+        'User-Agent': this.getRandomUserAgent()
+      }, proxyUrl);
+
+      return {
+        success: true,
+        image,
+        contentType: 'image/jpeg',
+        source: 'frame',
+        metadata,
+        platform
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Frame capture failed: ${error instanceof Error ? error.message : String(error)}`,
+        metadata,
+        platform
+      };
+    }
+  }
+
+  /**
+   * Sample frames of a video for a visual summary: evenly spaced, or at scene
+   * changes, plus a contact sheet of all of them. Works on a low-resolution
+   * download of the whole video, which is removed afterwards.
+   */
+  async captureStoryboard(url: string, options: StoryboardOptions): Promise<StoryboardResult> {
+    const platform = this.detectPlatform(url);
+    const download = await this.downloadVideo(url, {
+      format: { maxHeight: STORYBOARD_MAX_HEIGHT },
+      credentials: options.credentials,
+      signal: options.signal,
+      onProgress: options.onProgress
     });
+
+    if (!download.success || !download.filePath) {
+      return { success: false, error: download.error, errorCode: download.errorCode, retryAfter: download.retryAfter, metadata: download.metadata, platform };
+    }
+
+    const source = download.filePath;
+    options.onProgress?.({ phase: 'post-processing' });
+
+    try {
+      const duration = await this.media.probeDuration(source);
+      const timestamps = options.mode === 'scene'
+        ? await this.sceneTimestamps(source, options.count, options.sceneThreshold ?? DEFAULT_SCENE_THRESHOLD, options.signal)
+        : Array.from({ length: options.count }, (_, position) => ((position + 0.5) * duration) / options.count);
+
+      if (options.signal?.aborted) throw new Error('Download cancelled');
+
+      const images = await this.media.extractFrames(source, timestamps, options.frameWidth, options.signal);
+      const columns = Math.min(images.length, options.columns || Math.ceil(Math.sqrt(images.length)));
+      const sheet = await this.media.composeContactSheet(images, columns, options.signal);
+
+      return {
+        success: true,
+        frames: images.map((image, position) => ({ index: position + 1, timestamp: timestamps[position], image })),
+        sheet,
+        columns,
+        rows: Math.ceil(images.length / columns),
+        duration,
+        metadata: download.metadata,
+        platform
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Download cancelled', platform };
+      }
+      return {
+        success: false,
+        error: `Storyboard generation failed: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: 'PROCESSING_FAILED',
+        metadata: download.metadata,
+        platform
+      };
+    } finally {
+      await Promise.all((download.files?.map(file => file.filePath) || [source]).map(filePath => this.cleanup(filePath)));
+    }
+  }
+
+  // The opening frame plus the strongest cuts, in playback order
+  private async sceneTimestamps(source: string, count: number, threshold: number, signal?: AbortSignal): Promise<number[]> {
+    const changes = await this.media.detectSceneChanges(source, threshold, signal);
+    const strongest = changes
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count - 1)
+      .map(change => change.timestamp)
+      .sort((a, b) => a - b);
+    return [0, ...strongest];
+  }
+
+  private metadataFromInfo(info: YtDlpOutput, platform: string): VideoMetadata {
+    return {
+      id: info.id,
+      title: info.title || 'Unknown Title',
+      uploader: info.uploader || info.channel || 'Unknown',
+      uploader_id: info.uploader_id || info.channel_id,
+      duration: info.duration || 0,
+      view_count: info.view_count,
+      like_count: info.like_count,
+      comment_count: info.comment_count,
+      upload_date: info.upload_date,
+      description: info.description,
+      tags: info.tags,
+      categories: info.categories,
+      thumbnail_url: info.thumbnail,
+      direct_url: info.url,
+      webpage_url: info.webpage_url,
+      extractor: info.extractor,
+      platform,
+      quality: info.format_id || 'unknown',
+      ext: info.ext,
+      width: info.width,
+      height: info.height,
+      fps: info.fps,
+      vcodec: info.vcodec,
+      acodec: info.acodec
+    };
+  }
+
+  /**
+   * Remove every temp file written for a single yt-dlp invocation
+   * (media, subtitles, info.json, .part fragments), except the paths in `keep`.
+   */
+  async cleanupByPrefix(prefix: string, keep: string[] = []): Promise<void> {
+    try {
+      const files = await fs.readdir(this.tempDir);
+      await Promise.all(
+        files
+          .filter(f => f.startsWith(prefix) && !keep.includes(path.join(this.tempDir, f)))
+          .map(f => fs.unlink(path.join(this.tempDir, f)).catch(() => undefined))
+      );
+    } catch (error) {
+      console.warn(`Failed to cleanup files with prefix ${prefix}:`, error);
+    }
   }
 
   async cleanup(filePath: string): Promise<void> {
@@ -559,38 +1839,10 @@ export class ProfessionalVideoDownloaderService {
   }
 
   getPlatformSupport(): Record<string, { supported: boolean; authRequired: boolean; successRate: string; notes: string }> {
-    return {
-      youtube: {
-        supported: true,
-        authRequired: false,
-        successRate: '90-95%',
-        notes: 'Works well with proper headers and rate limiting'
-      },
-      instagram: {
-        supported: true,
-        authRequired: false,
-        successRate: '85-90%',
-        notes: 'Uses GraphQL API for public posts, very reliable'
-      },
-      tiktok: {
-        supported: true,
-        authRequired: false,
-        successRate: '80-85%',
-        notes: 'Works for most public videos'
-      },
-      facebook: {
-        supported: true,
-        authRequired: false,
-        successRate: '70-80%',
-        notes: 'Public videos only, some may require authentication'
-      },
-      linkedin: {
-        supported: true,
-        authRequired: false,
-        successRate: '60-70%',
-        notes: 'Limited support, public posts only'
-      }
-    };
+    return Object.fromEntries(listExtractors().map(({ platform, support }) => [
+      platform,
+      { supported: true, authRequired: support.authRequired, successRate: support.successRate, notes: support.notes }
+    ]));
   }
 }
 
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyHttpStatus, classifyYtDlpError, describeError, MediaError, parseRetryAfter, toErrorInfo } from './errors.js';
+
+describe('classifyYtDlpError', () => {
+  it('recognizes rate limits', () => {
+    expect(classifyYtDlpError('ERROR: [youtube] dQw4w9WgXcQ: Unable to download API page: HTTP Error 429: Too Many Requests')).toBe('RATE_LIMITED');
+    expect(classifyYtDlpError('ERROR: [instagram] C1a2B3c4D5e: Requested content is not available, rate-limit reached or login required')).toBe('RATE_LIMITED');
+  });
+
+  it('recognizes bot checks before the sign-in wording they contain', () => {
+    expect(classifyYtDlpError("ERROR: [youtube] dQw4w9WgXcQ: Sign in to confirm you're not a bot. Use --cookies-from-browser or --cookies for the authentication.")).toBe('BOT_DETECTED');
+  });
+
+  it('recognizes private content', () => {
+    expect(classifyYtDlpError('ERROR: [youtube] dQw4w9WgXcQ: Private video. Sign in if you\'ve been granted access to this video')).toBe('PRIVATE');
+  });
+
+  it('recognizes geo restrictions', () => {
+    expect(classifyYtDlpError('ERROR: [youtube] dQw4w9WgXcQ: The uploader has not made this video available in your country')).toBe('GEO_BLOCKED');
+    expect(classifyYtDlpError('ERROR: [vimeo] 123456: This video is not available from your location due to geo restriction')).toBe('GEO_BLOCKED');
+  });
+
+  it('recognizes removed and missing videos', () => {
+    expect(classifyYtDlpError('ERROR: [youtube] dQw4w9WgXcQ: Video unavailable. This video has been removed by the uploader')).toBe('NOT_FOUND');
+    expect(classifyYtDlpError('ERROR: [generic] Unable to download webpage: HTTP Error 404: Not Found')).toBe('NOT_FOUND');
+  });
+
+  it('recognizes sign-in walls, size limits, timeouts and unsupported URLs', () => {
+    expect(classifyYtDlpError('ERROR: [youtube] dQw4w9WgXcQ: Sign in to confirm your age. This video may be inappropriate for some users.')).toBe('AUTH_REQUIRED');
+    expect(classifyYtDlpError('[download] File is larger than max-filesize (104857600 bytes > 52428800 bytes). Aborting.')).toBe('TOO_LARGE');
+    expect(classifyYtDlpError('ERROR: Unable to download webpage: <urlopen error timed out> (caused by URLError(timeout(\'timed out\')))')).toBe('TIMEOUT');
+    expect(classifyYtDlpError('ERROR: Unsupported URL: https://example.com/page')).toBe('UNSUPPORTED_URL');
+  });
+
+  it('falls back to UNKNOWN', () => {
+    expect(classifyYtDlpError('ERROR: Postprocessing: Conversion failed!')).toBe('UNKNOWN');
+    expect(classifyYtDlpError('')).toBe('UNKNOWN');
+  });
+});
+
+describe('classifyHttpStatus', () => {
+  it('maps statuses to error codes', () => {
+    expect(classifyHttpStatus(404)).toBe('NOT_FOUND');
+    expect(classifyHttpStatus(410)).toBe('NOT_FOUND');
+    expect(classifyHttpStatus(401)).toBe('AUTH_REQUIRED');
+    expect(classifyHttpStatus(403)).toBe('AUTH_REQUIRED');
+    expect(classifyHttpStatus(429)).toBe('RATE_LIMITED');
+    expect(classifyHttpStatus(451)).toBe('GEO_BLOCKED');
+    expect(classifyHttpStatus(413)).toBe('TOO_LARGE');
+    expect(classifyHttpStatus(504)).toBe('TIMEOUT');
+    expect(classifyHttpStatus(500)).toBe('UNKNOWN');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120);
+    expect(parseRetryAfter('1.6')).toBe(2);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:01:30 GMT')).toBe(90);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and malformed headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('describeError', () => {
+  it('adds the retry policy, preferring the delay the platform asked for', () => {
+    expect(describeError('RATE_LIMITED', 'slow down')).toEqual({ code: 'RATE_LIMITED', message: 'slow down', retryable: true, retryAfter: 60 });
+    expect(describeError('RATE_LIMITED', 'slow down', 5).retryAfter).toBe(5);
+    expect(describeError('PRIVATE', 'private', 5)).toEqual({ code: 'PRIVATE', message: 'private', retryable: false, retryAfter: undefined });
+  });
+
+  it('categorizes caught exceptions', () => {
+    expect(toErrorInfo(new MediaError('GEO_BLOCKED', 'blocked')).code).toBe('GEO_BLOCKED');
+    expect(toErrorInfo(Object.assign(new Error('timed out'), { name: 'TimeoutError' })).code).toBe('TIMEOUT');
+    expect(toErrorInfo('boom')).toMatchObject({ code: 'UNKNOWN', message: 'Unknown error' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Machine-readable failure categories, shared by every tool result.
+ */
+export const ERROR_CODES = [
+  'NOT_FOUND',
+  'PRIVATE',
+  'AUTH_REQUIRED',
+  'GEO_BLOCKED',
+  'RATE_LIMITED',
+  'BOT_DETECTED',
+  'UNSUPPORTED_URL',
+  'TOO_LARGE',
+  'STORAGE_FAILED',
+  'PROCESSING_FAILED',
+  'TIMEOUT',
+  'UNKNOWN'
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
+}
+
+// Whether the same request can succeed later, and how long to wait when the platform does not say
+const RETRY_POLICY: Record<ErrorCode, { retryable: boolean; retryAfter?: number }> = {
+  NOT_FOUND: { retryable: false },
+  PRIVATE: { retryable: false },
+  AUTH_REQUIRED: { retryable: false },
+  GEO_BLOCKED: { retryable: false },
+  RATE_LIMITED: { retryable: true, retryAfter: 60 },
+  BOT_DETECTED: { retryable: true, retryAfter: 300 },
+  UNSUPPORTED_URL: { retryable: false },
+  TOO_LARGE: { retryable: false },
+  STORAGE_FAILED: { retryable: true, retryAfter: 30 },
+  PROCESSING_FAILED: { retryable: false },
+  TIMEOUT: { retryable: true, retryAfter: 10 },
+  UNKNOWN: { retryable: false }
+};
+
+// Checked in order: bot checks and rate limits also tend to mention signing in or unavailability
+const YT_DLP_ERROR_PATTERNS: Array<{ code: ErrorCode; pattern: RegExp }> = [
+  { code: 'BOT_DETECTED', pattern: /not a bot|captcha|unusual traffic/i },
+  { code: 'RATE_LIMITED', pattern: /\b429\b|too many requests|rate.?limit/i },
+  { code: 'GEO_BLOCKED', pattern: /(?:not|not made this video) available (?:in|from) your (?:country|location|region)|geo.?restrict|blocked it in your country/i },
+  { code: 'PRIVATE', pattern: /private video|video is private|account is private/i },
+  { code: 'AUTH_REQUIRED', pattern: /login required|log in|sign in|authentication|age.?restricted|confirm your age|members.?only|join this channel/i },
+  { code: 'TOO_LARGE', pattern: /larger than max-filesize/i },
+  { code: 'TIMEOUT', pattern: /timed out|timeout/i },
+  { code: 'UNSUPPORTED_URL', pattern: /unsupported url|no video formats found/i },
+  { code: 'NOT_FOUND', pattern: /not available|unavailable|does not exist|has been removed|\b404\b|not found/i }
+];
+
+/**
+ * Error that carries its category, for code paths that throw instead of
+ * resolving a result object.
+ */
+export class MediaError extends Error {
+  readonly code: ErrorCode;
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'MediaError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export function classifyYtDlpError(stderr: string): ErrorCode {
+  return YT_DLP_ERROR_PATTERNS.find(({ pattern }) => pattern.test(stderr))?.code || 'UNKNOWN';
+}
+
+export function classifyHttpStatus(status: number): ErrorCode {
+  if (status === 404 || status === 410) return 'NOT_FOUND';
+  if (status === 401 || status === 403) return 'AUTH_REQUIRED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 451) return 'GEO_BLOCKED';
+  if (status === 413) return 'TOO_LARGE';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  return 'UNKNOWN';
+}
+
+/**
+ * Seconds from a Retry-After header, which is either a delay or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.round(seconds));
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.round((date - Date.now()) / 1000));
+}
+
+/**
+ * Failures worth retrying through another proxy: the platform blocked the
+ * current IP rather than the content being unavailable.
+ */
+export function isBlockedCode(code?: ErrorCode): boolean {
+  return code === 'RATE_LIMITED' || code === 'BOT_DETECTED';
+}
+
+export function describeError(code: ErrorCode | undefined, message: string, retryAfter?: number): ErrorInfo {
+  const policy = RETRY_POLICY[code || 'UNKNOWN'];
+  return {
+    code: code || 'UNKNOWN',
+    message,
+    retryable: policy.retryable,
+    retryAfter: policy.retryable ? retryAfter ?? policy.retryAfter : undefined
+  };
+}
+
+/**
+ * Category of a failed result object from a code path that resolves instead of throwing.
+ */
+export function describeFailure(result: { error?: string; errorCode?: ErrorCode; retryAfter?: number }): ErrorInfo {
+  return describeError(result.errorCode, result.error || 'Unknown error', result.retryAfter);
+}
+
+/**
+ * Category of a caught exception: its own code for a MediaError, TIMEOUT for
+ * timed-out fetches, UNKNOWN for anything else.
+ */
+export function toErrorInfo(error: unknown): ErrorInfo {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (error instanceof MediaError) return describeError(error.code, message, error.retryAfter);
+  if (error instanceof Error && error.name === 'TimeoutError') return describeError('TIMEOUT', message);
+  return describeError('UNKNOWN', message);
+}
@@ -0,0 +1,79 @@
+import type { DownloadOptions, DownloadResult } from '../downloader.js';
+import type { PlatformCredentials } from '../cookies.js';
+import type { ErrorCode } from '../errors.js';
+
+/**
+ * What the downloader lends to extractor modules: temp storage, user agents,
+ * proxy routing and the shared yt-dlp download.
+ */
+export interface ExtractorContext {
+  readonly tempDir: string;
+  userAgent(): string;
+  proxyFor(platform: string, credentials?: PlatformCredentials): string | undefined;
+  rotateProxy(failedProxy: string | undefined, credentials?: PlatformCredentials): void;
+  cleanup(filePath: string): Promise<void>;
+  downloadWithYtDlp(url: string, options: DownloadOptions): Promise<DownloadResult>;
+}
+
+/**
+ * One way of downloading from a platform. Methods are tried in order, a failed
+ * method falls back to the next one unless it is marked final.
+ */
+export interface DownloadMethod {
+  name: string;
+  /** Restrict the method to some URLs of the platform, e.g. stories */
+  appliesTo?: (url: string) => boolean;
+  /** Return this method's failure instead of falling back, for URLs no other method can handle */
+  final?: boolean;
+  download(url: string, context: ExtractorContext, options: DownloadOptions): Promise<DownloadResult>;
+  /** Metadata without downloading, for methods that do better than `yt-dlp --dump-json` */
+  metadata?(url: string, context: ExtractorContext, credentials?: PlatformCredentials): Promise<DownloadResult>;
+}
+
+/**
+ * A known yt-dlp failure, matched against its stderr.
+ */
+export interface ErrorPattern {
+  pattern: RegExp;
+  code: ErrorCode;
+  message: string;
+}
+
+export interface PlatformSupport {
+  successRate: string;
+  authRequired: boolean;
+  /** Short access label for diagnostics, e.g. "No Auth Required" */
+  access: string;
+  notes: string;
+}
+
+export interface ExtractorStrategy {
+  /** Platform ID used in results, object keys and per-platform config */
+  platform: string;
+  /** Hostnames of the platform, subdomains included (`youtube.com` also covers `m.` and `music.`) */
+  hosts: string[];
+  /** Share links that only redirect to the real URL, resolved before downloading */
+  shortLinks?: RegExp[];
+  /** Query parameters that only track the share, removed on top of the common utm_* and click IDs */
+  trackingParams?: string[];
+  /** Stable URL for a video ID, for platforms where the ID alone identifies the video */
+  canonicalUrl?: (videoId: string) => string;
+  downloadMethods: DownloadMethod[];
+  /** Extra yt-dlp arguments; a `--format` here is the default that explicit format options replace */
+  ytDlpArgs: string[];
+  /** Headers sent with every yt-dlp run and direct HTTP request for the platform, the User-Agent is added per request */
+  headers?: Record<string, string>;
+  /** Domain a configured cookie header is scoped to */
+  cookieDomain?: string;
+  /** Video ID patterns for URL-only lookups such as deduplication */
+  videoIdPatterns?: RegExp[];
+  /** Platform-specific failures, checked before the generic yt-dlp error classification */
+  errors?: ErrorPattern[];
+  tip: string;
+  support: PlatformSupport;
+}
+
+export const ytDlpMethod: DownloadMethod = {
+  name: 'yt-dlp',
+  download: (url, context, options) => context.downloadWithYtDlp(url, options)
+};
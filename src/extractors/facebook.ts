@@ -0,0 +1,32 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const facebook: ExtractorStrategy = {
+  platform: 'facebook',
+  hosts: ['facebook.com', 'fb.com', 'fb.watch'],
+  shortLinks: [/^https:\/\/fb\.watch\//, /facebook\.com\/share\//],
+  downloadMethods: [ytDlpMethod],
+  ytDlpArgs: [
+    '--format', 'best',
+    '--sleep-interval', '3',
+    '--max-sleep-interval', '10'
+  ],
+  headers: {
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.5',
+    'Accept-Encoding': 'gzip, deflate',
+    'DNT': '1',
+    'Connection': 'keep-alive',
+    'Upgrade-Insecure-Requests': '1',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate'
+  },
+  cookieDomain: '.facebook.com',
+  videoIdPatterns: [/facebook\.com\/(?:[^/]+\/)?videos\/(?:[^/]+\/)?(\d+)/, /[?&]v=(\d+)/, /facebook\.com\/reel\/(\d+)/],
+  tip: "Facebook videos work best when they're completely public. Some videos may require authentication depending on privacy settings.",
+  support: {
+    successRate: '70-80%',
+    authRequired: false,
+    access: 'Public content only',
+    notes: 'Optimized yt-dlp with Facebook-specific configurations'
+  }
+};
@@ -0,0 +1,76 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+import { facebook } from './facebook.js';
+import { instagram } from './instagram.js';
+import { linkedin } from './linkedin.js';
+import { reddit } from './reddit.js';
+import { tiktok } from './tiktok.js';
+import { twitch } from './twitch.js';
+import { twitter } from './twitter.js';
+import { vimeo } from './vimeo.js';
+import { youtube } from './youtube.js';
+
+export type { DownloadMethod, ErrorPattern, ExtractorContext, ExtractorStrategy, PlatformSupport } from './base.js';
+export { ytDlpMethod } from './base.js';
+
+/**
+ * Fallback for URLs no strategy claims: plain yt-dlp, which knows 1000+ sites.
+ */
+export const genericExtractor: ExtractorStrategy = {
+  platform: 'unknown',
+  hosts: [],
+  downloadMethods: [ytDlpMethod],
+  ytDlpArgs: ['--format', 'best'],
+  tip: 'Make sure the URL is from a supported platform: YouTube, Instagram, TikTok, Facebook, LinkedIn, X/Twitter, Reddit, Vimeo, or Twitch.',
+  support: {
+    successRate: '70-80%',
+    authRequired: false,
+    access: 'Public content only',
+    notes: 'Generic yt-dlp extraction'
+  }
+};
+
+// Checked in order, the first strategy claiming the URL's host wins
+const extractors: ExtractorStrategy[] = [instagram, tiktok, facebook, youtube, linkedin, twitter, reddit, vimeo, twitch];
+
+/**
+ * Add a platform. Registering a platform ID that already exists replaces that strategy.
+ */
+export function registerExtractor(strategy: ExtractorStrategy): void {
+  const existing = extractors.findIndex(extractor => extractor.platform === strategy.platform);
+  if (existing !== -1) {
+    extractors[existing] = strategy;
+  } else {
+    extractors.push(strategy);
+  }
+}
+
+export function listExtractors(): ExtractorStrategy[] {
+  return [...extractors];
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Strategy for a URL by its parsed hostname, so `notyoutube.com.evil.example`
+ * is not mistaken for YouTube while `m.youtube.com` still is.
+ */
+export function detectExtractor(url: string): ExtractorStrategy {
+  const hostname = hostnameOf(url);
+  if (!hostname) return genericExtractor;
+
+  return extractors.find(extractor => extractor.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))) || genericExtractor;
+}
+
+export function detectPlatform(url: string): string {
+  return detectExtractor(url).platform;
+}
+
+export function getExtractor(platform: string): ExtractorStrategy {
+  return extractors.find(extractor => extractor.platform === platform) || genericExtractor;
+}
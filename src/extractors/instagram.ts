@@ -0,0 +1,482 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { DownloadedFile, DownloadResult, MediaType, VideoMetadata } from '../downloader.js';
+import { cookieValue, toCookieHeader, type PlatformCredentials } from '../cookies.js';
+import { proxyFetch } from '../proxy.js';
+import { classifyHttpStatus, MediaError, parseRetryAfter, toErrorInfo, type ErrorCode } from '../errors.js';
+import { ytDlpMethod, type ExtractorContext, type ExtractorStrategy } from './base.js';
+
+interface InstagramMediaItem {
+  mediaType: MediaType;
+  downloadUrl: string;
+}
+
+// Fields read from a GraphQL media node; every field is optional because the payload is not under our control
+interface InstagramMediaNode {
+  video_url?: string;
+  display_url?: string;
+}
+
+interface SidecarEdge {
+  node?: InstagramMediaNode;
+}
+
+interface InstagramShortcodeMedia extends InstagramMediaNode {
+  edge_sidecar_to_children?: { edges?: SidecarEdge[] };
+  edge_media_to_caption?: { edges?: Array<{ node?: { text?: string } }> };
+  owner?: { username?: string };
+  video_duration?: number;
+  video_view_count?: number;
+  video_play_count?: number;
+  thumbnail_src?: string;
+}
+
+interface InstagramGraphQLResponse {
+  data?: { xdt_shortcode_media?: InstagramShortcodeMedia | null };
+}
+
+interface InstagramPostResult {
+  items?: InstagramMediaItem[];
+  metadata?: VideoMetadata;
+  shortcode?: string;
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+// Fields read from the private web API's story payloads
+interface InstagramStoryItem {
+  id?: string;
+  pk?: string | number;
+  taken_at?: number;
+  video_duration?: number;
+  video_versions?: Array<{ url?: string }>;
+  image_versions2?: { candidates?: Array<{ url?: string }> };
+  user?: { username?: string };
+}
+
+interface InstagramReel {
+  id?: string | number;
+  title?: string;
+  user?: { pk?: string | number; username?: string };
+  items?: InstagramStoryItem[];
+}
+
+interface InstagramReelsResponse {
+  reels?: Record<string, InstagramReel | undefined>;
+  reels_media?: InstagramReel[];
+}
+
+interface InstagramProfileResponse {
+  data?: { user?: { id?: string | number } | null };
+}
+
+// Any JSON object, for checks on payloads of unknown shape
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface InstagramStoryResult {
+  items?: InstagramMediaItem[];
+  metadata?: VideoMetadata;
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+// instagram.com/stories/<username>/[<story id>/] or instagram.com/stories/highlights/<highlight id>/
+const STORY_REGEX = /instagram\.com\/stories\/(?:highlights\/(\d+)|([A-Za-z0-9_.]+)(?:\/(\d+))?)/;
+
+// Instagram-specific headers (based on research)
+const INSTAGRAM_HEADERS: Record<string, string> = {
+  'X-IG-App-ID': '936619743392459', // Current Instagram web app ID
+  'X-FB-LSD': 'AVqbxe3J_YA',
+  'X-ASBD-ID': '129477',
+  'Sec-Fetch-Site': 'same-origin',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate',
+  'DNT': '1',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1'
+};
+
+/**
+ * Look up a post through the public GraphQL endpoint. Only fetches the JSON,
+ * so metadata lookups never download the media itself.
+ */
+async function resolvePost(url: string, context: ExtractorContext, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<InstagramPostResult> {
+  // Extract Instagram post ID
+  const regex = /instagram\.com\/(?:[A-Za-z0-9_.]+\/)?(p|reels|reel)\/([A-Za-z0-9-_]+)/;
+  const match = url.match(regex);
+  
+  if (!match || !match[2]) {
+    return { error: 'Invalid Instagram URL format', errorCode: 'UNSUPPORTED_URL' };
+  }
+
+  const shortcode = match[2];
+
+  // Build GraphQL endpoint
+  const graphqlUrl = new URL('https://www.instagram.com/api/graphql');
+  graphqlUrl.searchParams.set('variables', JSON.stringify({ shortcode }));
+  graphqlUrl.searchParams.set('doc_id', '10015901848480474');
+  graphqlUrl.searchParams.set('lsd', 'AVqbxe3J_YA');
+
+  // Make GraphQL request
+  const proxyUrl = context.proxyFor('instagram', credentials);
+  const response = await proxyFetch(graphqlUrl.toString(), {
+    method: 'POST',
+    headers: {
+      'User-Agent': context.userAgent(),
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...INSTAGRAM_HEADERS,
+      ...(credentials?.cookies?.instagram ? { 'Cookie': toCookieHeader(credentials.cookies.instagram) } : {})
+    },
+    signal
+  }, proxyUrl);
+
+  if (!response.ok) {
+    // The yt-dlp fallback then starts from the next pool proxy
+    if (response.status === 429) context.rotateProxy(proxyUrl, credentials);
+    throw new MediaError(classifyHttpStatus(response.status), `GraphQL request failed: ${response.status}`, parseRetryAfter(response.headers.get('retry-after')));
+  }
+
+  const data = await response.json() as InstagramGraphQLResponse | null;
+  const media = data?.data?.xdt_shortcode_media;
+
+  if (!media) {
+    return { error: 'No media data found in GraphQL response' };
+  }
+
+  // Carousel posts list their items under edge_sidecar_to_children, single posts are their own item
+  const edges = media.edge_sidecar_to_children?.edges;
+  const nodes: InstagramMediaNode[] = edges
+    ? edges.map(edge => edge.node).filter((node): node is InstagramMediaNode => !!node)
+    : [media];
+  const items = nodes
+    .map((node) => ({
+      mediaType: (node.video_url ? 'video' : 'image') as MediaType,
+      downloadUrl: node.video_url || node.display_url
+    }))
+    .filter((item): item is InstagramMediaItem => !!item.downloadUrl);
+
+  if (items.length === 0) {
+    return { error: 'No download URL found in media data' };
+  }
+
+  const caption = media.edge_media_to_caption?.edges?.[0]?.node?.text;
+  const metadata: VideoMetadata = {
+    id: shortcode,
+    title: caption || 'Instagram Media',
+    uploader: media.owner?.username || 'Unknown',
+    duration: media.video_duration || 0,
+    view_count: media.video_view_count || media.video_play_count,
+    description: caption,
+    thumbnail_url: media.thumbnail_src,
+    direct_url: items[0].downloadUrl,
+    webpage_url: url,
+    extractor: 'instagram',
+    platform: 'instagram',
+    quality: items.length > 1
+      ? `carousel (${items.length} items)`
+      : items[0].mediaType === 'video' ? 'original' : 'image'
+  };
+
+  return { items, metadata, shortcode };
+}
+
+async function downloadWithGraphQL(url: string, context: ExtractorContext, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<DownloadResult> {
+  try {
+    const { items, metadata, shortcode, error, errorCode } = await resolvePost(url, context, signal, credentials);
+    if (!items || !metadata) {
+      return { success: false, error, errorCode, platform: 'instagram' };
+    }
+
+    const files = await downloadMediaItems(context, items, `instagram_${shortcode}`, context.userAgent(), signal, credentials);
+
+    return {
+      success: true,
+      filePath: files[0].filePath,
+      files: files.length > 1 ? files : undefined,
+      metadata,
+      platform: 'instagram'
+    };
+  } catch (error) {
+    const { code, retryAfter } = toErrorInfo(error);
+    return {
+      success: false,
+      error: `Instagram GraphQL download failed: ${error instanceof Error ? error.message : String(error)}`,
+      errorCode: code,
+      retryAfter,
+      platform: 'instagram'
+    };
+  }
+}
+
+/**
+ * Fetch Instagram media items to temp files in order, numbering them when
+ * there is more than one. Already fetched files are removed if one fails.
+ */
+async function downloadMediaItems(context: ExtractorContext, items: InstagramMediaItem[], baseName: string, userAgent: string, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<DownloadedFile[]> {
+  const files: DownloadedFile[] = [];
+  const proxyUrl = context.proxyFor('instagram', credentials);
+  try {
+    for (const [position, item] of items.entries()) {
+      const index = position + 1;
+      const suffix = items.length > 1 ? `_${index}` : '';
+      const filename = `${baseName}${suffix}_${randomUUID()}.${item.mediaType === 'video' ? 'mp4' : 'jpg'}`;
+      const filePath = path.join(context.tempDir, filename);
+
+      const mediaResponse = await proxyFetch(item.downloadUrl, {
+        headers: { 'User-Agent': userAgent },
+        signal
+      }, proxyUrl);
+
+      if (!mediaResponse.ok) {
+        throw new MediaError(classifyHttpStatus(mediaResponse.status), `Media download failed: ${mediaResponse.status}`);
+      }
+
+      const buffer = await mediaResponse.arrayBuffer();
+      await fs.writeFile(filePath, Buffer.from(buffer));
+      files.push({ filePath, mediaType: item.mediaType, index, direct_url: item.downloadUrl });
+    }
+  } catch (error) {
+    await Promise.all(files.map(file => context.cleanup(file.filePath)));
+    throw error;
+  }
+  return files;
+}
+
+function isStoryUrl(url: string): boolean {
+  return STORY_REGEX.test(url);
+}
+
+/**
+ * Call an authenticated Instagram web API endpoint with the configured session cookie.
+ */
+async function apiRequest(context: ExtractorContext, apiUrl: string, sessionId: string, userAgent: string, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<unknown> {
+  const proxyUrl = context.proxyFor('instagram', credentials);
+  const response = await proxyFetch(apiUrl, {
+    headers: {
+      'User-Agent': userAgent,
+      ...INSTAGRAM_HEADERS,
+      'Accept': 'application/json',
+      'Cookie': `sessionid=${sessionId}`
+    },
+    signal
+  }, proxyUrl);
+
+  // Instagram answers expired sessions with a redirect to the login page or a login_required payload
+  if (response.status === 401 || response.status === 403 || response.redirected) {
+    throw new MediaError('AUTH_REQUIRED', 'Instagram session is invalid or expired. Update instagramSessionId or the Instagram cookies in the server config.');
+  }
+  if (response.status === 404) {
+    throw new MediaError('NOT_FOUND', 'Instagram user or highlight not found');
+  }
+  if (response.status === 429) {
+    context.rotateProxy(proxyUrl, credentials);
+    throw new MediaError('RATE_LIMITED', 'Rate limited by instagram. Please wait before trying again.', parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (!response.ok) {
+    throw new MediaError(classifyHttpStatus(response.status), `Instagram API request failed: ${response.status}`);
+  }
+
+  const data: unknown = await response.json();
+  if (!isRecord(data)) {
+    throw new MediaError('UNKNOWN', 'Unexpected Instagram API response');
+  }
+  if (data.require_login || data.message === 'login_required') {
+    throw new MediaError('AUTH_REQUIRED', 'Instagram session is invalid or expired. Update instagramSessionId or the Instagram cookies in the server config.');
+  }
+  return data;
+}
+
+/**
+ * Resolve the items of a story or highlight URL. A URL pointing at a single story
+ * item yields that item only; a profile story or highlight URL yields every item.
+ */
+async function resolveStory(url: string, context: ExtractorContext, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<InstagramStoryResult> {
+  const match = url.match(STORY_REGEX);
+  if (!match) {
+    return { error: 'Invalid Instagram story URL format', errorCode: 'UNSUPPORTED_URL' };
+  }
+
+  const sessionId = credentials?.instagramSessionId
+    || (credentials?.cookies?.instagram ? cookieValue(credentials.cookies.instagram, 'sessionid') : undefined);
+  if (!sessionId) {
+    return {
+      error: 'Instagram stories and highlights require authentication. Set instagramSessionId (the sessionid cookie of a logged-in account) or Instagram cookies in the server config.',
+      errorCode: 'AUTH_REQUIRED'
+    };
+  }
+
+  const [, highlightId, username, storyId] = match;
+  const userAgent = context.userAgent();
+
+  let reelId = highlightId ? `highlight:${highlightId}` : undefined;
+  if (!reelId) {
+    const profile = await apiRequest(
+      context,
+      `https://www.instagram.com/api/v1/users/web_profile_info/?username=${encodeURIComponent(username)}`,
+      sessionId,
+      userAgent,
+      signal,
+      credentials
+    ) as InstagramProfileResponse;
+    const userId = profile.data?.user?.id;
+    if (!userId) {
+      return { error: `Instagram user ${username} not found`, errorCode: 'NOT_FOUND' };
+    }
+    reelId = String(userId);
+  }
+
+  const data = await apiRequest(
+    context,
+    `https://www.instagram.com/api/v1/feed/reels_media/?reel_ids=${encodeURIComponent(reelId)}`,
+    sessionId,
+    userAgent,
+    signal,
+    credentials
+  ) as InstagramReelsResponse;
+  const reel = data.reels?.[reelId] || data.reels_media?.[0];
+  let storyItems: InstagramStoryItem[] = reel?.items || [];
+
+  if (storyItems.length === 0) {
+    return { error: 'No story items found. Stories expire after 24 hours, highlights may have been removed.', errorCode: 'NOT_FOUND' };
+  }
+
+  if (storyId) {
+    // Item IDs look like <pk>_<owner id>
+    storyItems = storyItems.filter(item => String(item.pk) === storyId || String(item.id).startsWith(`${storyId}_`));
+    if (storyItems.length === 0) {
+      return { error: 'Story item not found, it may have expired', errorCode: 'NOT_FOUND' };
+    }
+  }
+
+  const items = storyItems
+    .map((item) => {
+      const videoUrl = item.video_versions?.[0]?.url;
+      return {
+        mediaType: (videoUrl ? 'video' : 'image') as MediaType,
+        downloadUrl: videoUrl || item.image_versions2?.candidates?.[0]?.url
+      };
+    })
+    .filter((item): item is InstagramMediaItem => !!item.downloadUrl);
+
+  if (items.length === 0) {
+    return { error: 'No download URL found in story data', errorCode: 'NOT_FOUND' };
+  }
+
+  const first = storyItems[0];
+  const uploader = reel?.user?.username || first.user?.username || username || 'Unknown';
+  const metadata: VideoMetadata = {
+    id: storyId || (highlightId ? `highlight_${highlightId}` : String(reel?.id || reelId)),
+    title: reel?.title || `${uploader}'s story`,
+    uploader,
+    uploader_id: reel?.user?.pk ? String(reel.user.pk) : undefined,
+    duration: storyItems.length === 1 ? first.video_duration || 0 : 0,
+    upload_date: first.taken_at ? new Date(first.taken_at * 1000).toISOString().slice(0, 10).replace(/-/g, '') : undefined,
+    thumbnail_url: first.image_versions2?.candidates?.[0]?.url,
+    direct_url: items[0].downloadUrl,
+    webpage_url: url,
+    extractor: highlightId ? 'instagram:highlight' : 'instagram:story',
+    platform: 'instagram',
+    quality: items.length > 1
+      ? `story (${items.length} items)`
+      : items[0].mediaType === 'video' ? 'original' : 'image'
+  };
+
+  return { items, metadata };
+}
+
+async function downloadStory(url: string, context: ExtractorContext, signal?: AbortSignal, credentials?: PlatformCredentials): Promise<DownloadResult> {
+  try {
+    const { items, metadata, error, errorCode } = await resolveStory(url, context, signal, credentials);
+    if (!items || !metadata) {
+      return { success: false, error, errorCode, platform: 'instagram' };
+    }
+
+    const files = await downloadMediaItems(
+      context,
+      items,
+      `instagram_story_${metadata.id}`,
+      context.userAgent(),
+      signal,
+      credentials
+    );
+
+    return {
+      success: true,
+      filePath: files[0].filePath,
+      files: files.length > 1 ? files : undefined,
+      metadata,
+      platform: 'instagram'
+    };
+  } catch (error) {
+    const { code, retryAfter } = toErrorInfo(error);
+    return {
+      success: false,
+      error: `Instagram story download failed: ${error instanceof Error ? error.message : String(error)}`,
+      errorCode: code,
+      retryAfter,
+      platform: 'instagram'
+    };
+  }
+}
+
+export const instagram: ExtractorStrategy = {
+  platform: 'instagram',
+  hosts: ['instagram.com', 'instagr.am'],
+  shortLinks: [/instagram\.com\/share\//],
+  trackingParams: ['igsh', 'igshid', 'img_index'],
+  downloadMethods: [
+    {
+      // Stories and highlights are only reachable through the authenticated API, yt-dlp cannot do better
+      name: 'instagram-story',
+      appliesTo: isStoryUrl,
+      final: true,
+      download: (url, context, options) => downloadStory(url, context, options.signal, options.credentials),
+      metadata: async (url, context, credentials) => {
+        try {
+          const { metadata, error, errorCode } = await resolveStory(url, context, undefined, credentials);
+          return metadata
+            ? { success: true, metadata, platform: 'instagram' }
+            : { success: false, error, errorCode, platform: 'instagram' };
+        } catch (error) {
+          const { code, retryAfter } = toErrorInfo(error);
+          return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: code, retryAfter, platform: 'instagram' };
+        }
+      }
+    },
+    {
+      // Higher success rate than yt-dlp for public posts
+      name: 'instagram-graphql',
+      download: (url, context, options) => downloadWithGraphQL(url, context, options.signal, options.credentials),
+      metadata: async (url, context, credentials) => {
+        try {
+          const { metadata, error, errorCode } = await resolvePost(url, context, undefined, credentials);
+          return metadata
+            ? { success: true, metadata, platform: 'instagram' }
+            : { success: false, error, errorCode, platform: 'instagram' };
+        } catch (error) {
+          const { code, retryAfter } = toErrorInfo(error);
+          return { success: false, error: error instanceof Error ? error.message : String(error), errorCode: code, retryAfter, platform: 'instagram' };
+        }
+      }
+    },
+    ytDlpMethod
+  ],
+  ytDlpArgs: ['--format', 'best'],
+  headers: INSTAGRAM_HEADERS,
+  cookieDomain: '.instagram.com',
+  videoIdPatterns: [
+    /instagram\.com\/(?:[A-Za-z0-9_.]+\/)?(?:p|reels?|tv)\/([A-Za-z0-9_-]+)/,
+    /instagram\.com\/stories\/(?!highlights\/)[A-Za-z0-9_.]+\/(\d+)/
+  ],
+  tip: 'For Instagram, we use advanced GraphQL API techniques for public posts. Private accounts or age-restricted content requires the owner to make posts public. Stories and highlights need instagramSessionId in the server config.',
+  support: {
+    successRate: '85-90%',
+    authRequired: false,
+    access: 'No Auth Required',
+    notes: 'Uses GraphQL API for public posts, handles age-restricted content'
+  }
+};
@@ -0,0 +1,22 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const linkedin: ExtractorStrategy = {
+  platform: 'linkedin',
+  hosts: ['linkedin.com', 'lnkd.in'],
+  shortLinks: [/^https:\/\/lnkd\.in\//],
+  downloadMethods: [ytDlpMethod],
+  ytDlpArgs: [
+    '--format', 'best',
+    '--sleep-interval', '2',
+    '--max-sleep-interval', '6'
+  ],
+  cookieDomain: '.linkedin.com',
+  videoIdPatterns: [/urn:li:(?:activity|ugcPost):(\d+)/, /linkedin\.com\/posts\/[^/?]*-(\d{15,})/],
+  tip: 'LinkedIn has limited support. Only some public posts with videos can be downloaded reliably.',
+  support: {
+    successRate: '60-70%',
+    authRequired: false,
+    access: 'Public content only',
+    notes: 'Basic yt-dlp support for public posts'
+  }
+};
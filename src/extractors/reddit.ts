@@ -0,0 +1,35 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const reddit: ExtractorStrategy = {
+  platform: 'reddit',
+  hosts: ['reddit.com', 'redd.it'],
+  shortLinks: [/^https:\/\/redd\.it\//, /reddit\.com\/r\/[^/]+\/s\//],
+  trackingParams: ['share_id', 'rdt'],
+  downloadMethods: [ytDlpMethod],
+  // v.redd.it serves video and audio as separate DASH streams, merge them with ffmpeg
+  ytDlpArgs: [
+    '--format', 'bestvideo+bestaudio/best',
+    '--merge-output-format', 'mp4'
+  ],
+  cookieDomain: '.reddit.com',
+  videoIdPatterns: [/reddit\.com\/(?:r\/[^/]+\/)?comments\/([a-z0-9]+)/i, /v\.redd\.it\/([a-z0-9]+)/i],
+  errors: [
+    {
+      pattern: /No media found|Unsupported URL/i,
+      code: 'UNSUPPORTED_URL',
+      message: 'This Reddit post has no hosted video. Links to other sites have to be downloaded from the original URL.'
+    },
+    {
+      pattern: /private subreddit|quarantined|over 18|NSFW/i,
+      code: 'AUTH_REQUIRED',
+      message: 'reddit requires authentication for this post. It may be NSFW or in a private or quarantined subreddit, add reddit cookies to the server config if you have access to it.'
+    }
+  ],
+  tip: 'Reddit works for videos hosted on v.redd.it, audio is merged in automatically. Posts linking to other sites should be downloaded from the original URL.',
+  support: {
+    successRate: '80-85%',
+    authRequired: false,
+    access: 'Public content only',
+    notes: 'yt-dlp with v.redd.it video and audio muxing'
+  }
+};
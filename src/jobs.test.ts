@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DownloadJobManager } from './jobs.js';
+import type { CloudDownloadPipeline } from './pipeline.js';
+
+const URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+// Job manager over a pipeline stand-in that runs until aborted, or finishes at once when `finish` is set
+function createJobs(finish = false) {
+  const run = vi.fn((_kind: string, _url: string, request: { signal?: AbortSignal }) => new Promise((resolve) => {
+    const outcome = { platform: 'youtube', result: { success: true, publicUrl: 'https://cdn.example.com/a.mp4', objectKey: 'a.mp4' } };
+    if (finish) {
+      resolve(outcome);
+      return;
+    }
+    request.signal?.addEventListener('abort', () => resolve({ ...outcome, result: { success: false, error: 'Download cancelled' } }));
+  }));
+  return new DownloadJobManager({ run } as unknown as CloudDownloadPipeline);
+}
+
+describe('DownloadJobManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only shows and cancels a job for the session that started it', async () => {
+    const jobs = createJobs();
+    const { id } = jobs.start(URL, 'session-a');
+
+    expect(jobs.get(id, 'session-b')).toBeUndefined();
+    expect(await jobs.cancel(id, 'session-b')).toEqual({ cancelled: false, reason: 'Job not found' });
+    expect(jobs.get(id, 'session-a')?.phase).toBe('queued');
+
+    expect(await jobs.cancel(id, 'session-a')).toMatchObject({ cancelled: true, cleanedUp: true, job: { phase: 'cancelled' } });
+  });
+
+  it('drops finished jobs after the retention period when polled', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    const jobs = createJobs(true);
+    const { id } = jobs.start(URL, 'session-a');
+    await vi.runAllTimersAsync();
+    expect(jobs.get(id, 'session-a')?.phase).toBe('completed');
+
+    vi.setSystemTime(new Date('2025-01-01T01:00:01Z'));
+    expect(jobs.get(id, 'session-a')).toBeUndefined();
+  });
+});
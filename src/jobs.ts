@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { FormatOptions, VideoMetadata } from './downloader.js';
+import type { PlatformCredentials } from './cookies.js';
+import type { CloudDownloadPipeline, UploadSettings } from './pipeline.js';
+import type { TranscodeProfileName } from './transcode.js';
+import type { DownloadResult } from './types.js';
+import { toErrorInfo } from './errors.js';
+
+export type JobPhase =
+  | 'queued'
+  | 'resolving'
+  | 'downloading'
+  | 'post-processing'
+  | 'uploading'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface DownloadJob {
+  id: string;
+  url: string;
+  phase: JobPhase;
+  percent: number;
+  createdAt: string;
+  updatedAt: string;
+  platform?: string;
+  metadata?: VideoMetadata;
+  result?: DownloadResult;
+  cached?: boolean;
+  /** Download method that produced the file, `cache` for a deduplication hit */
+  method?: string;
+  error?: string;
+}
+
+export interface StartJobOptions {
+  force?: boolean;
+  format?: FormatOptions;
+  profile?: TranscodeProfileName;
+  credentials?: PlatformCredentials;
+  upload?: UploadSettings;
+}
+
+interface JobEntry {
+  job: DownloadJob;
+  /** Session that started the job, only it can read or cancel the job */
+  owner: string;
+  controller: AbortController;
+  request: StartJobOptions;
+  /** Settles once the run has stopped and removed its temp files */
+  done?: Promise<void>;
+}
+
+export interface CancelOutcome {
+  cancelled: boolean;
+  job?: DownloadJob;
+  reason?: string;
+  /** Whether the job's processes had exited and its partial files were removed before returning */
+  cleanedUp?: boolean;
+}
+
+const TERMINAL_PHASES: JobPhase[] = ['completed', 'failed', 'cancelled'];
+
+// Finished jobs are kept around for polling, then dropped
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// How long cancel waits for the run to stop and clean up before answering anyway
+const CANCEL_CLEANUP_WAIT_MS = 15000;
+
+export function isTerminalPhase(phase: JobPhase): boolean {
+  return TERMINAL_PHASES.includes(phase);
+}
+
+export class DownloadJobManager {
+  private readonly jobs = new Map<string, JobEntry>();
+  private readonly pipeline: CloudDownloadPipeline;
+
+  constructor(pipeline: CloudDownloadPipeline) {
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Start a job in the background. `owner` identifies the calling session; other
+   * sessions get "not found" for the job ID.
+   */
+  start(url: string, owner: string, request: StartJobOptions = {}): DownloadJob {
+    this.pruneFinishedJobs();
+
+    const now = new Date().toISOString();
+    const job: DownloadJob = {
+      id: uuidv4(),
+      url,
+      phase: 'queued',
+      percent: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    const entry: JobEntry = { job, owner, controller: new AbortController(), request };
+    this.jobs.set(job.id, entry);
+
+    // Runs in the background, the caller polls with get()
+    entry.done = this.run(entry);
+
+    return { ...job };
+  }
+
+  get(id: string, owner: string): DownloadJob | undefined {
+    this.pruneFinishedJobs();
+    const entry = this.entryFor(id, owner);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * Cancel a running job. Kills the yt-dlp or ffmpeg process and removes its partial
+   * files, or aborts the upload (discarding any uploaded parts) if it has already
+   * started. Waits a bounded time for that cleanup to finish.
+   */
+  async cancel(id: string, owner: string): Promise<CancelOutcome> {
+    this.pruneFinishedJobs();
+    const entry = this.entryFor(id, owner);
+    if (!entry) {
+      return { cancelled: false, reason: 'Job not found' };
+    }
+
+    const { job } = entry;
+    if (isTerminalPhase(job.phase)) {
+      return { cancelled: false, job: { ...job }, reason: `Job already ${job.phase}` };
+    }
+
+    entry.controller.abort();
+    this.update(job, { phase: 'cancelled' });
+
+    let timer: NodeJS.Timeout | undefined;
+    const cleanedUp = await Promise.race([
+      (entry.done || Promise.resolve()).then(() => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), CANCEL_CLEANUP_WAIT_MS);
+      })
+    ]);
+    clearTimeout(timer);
+
+    return { cancelled: true, job: { ...job }, cleanedUp };
+  }
+
+  private entryFor(id: string, owner: string): JobEntry | undefined {
+    const entry = this.jobs.get(id);
+    return entry?.owner === owner ? entry : undefined;
+  }
+
+  private update(job: DownloadJob, changes: Partial<DownloadJob>): void {
+    // Once cancelled, late progress events from the dying process are ignored
+    if (job.phase === 'cancelled') return;
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job, controller, request } = entry;
+
+    try {
+      const outcome = await this.pipeline.run('video', job.url, {
+        force: request.force,
+        format: request.format,
+        profile: request.profile,
+        signal: controller.signal,
+        credentials: request.credentials,
+        upload: request.upload,
+        onDownloadProgress: (progress) => {
+          this.update(job, {
+            phase: progress.phase,
+            percent: progress.percent ?? (progress.phase === 'post-processing' ? 100 : job.percent)
+          });
+        },
+        onUploadStart: () => this.update(job, { phase: 'uploading', percent: 100 })
+      });
+
+      if (controller.signal.aborted) return;
+
+      this.update(job, {
+        phase: outcome.result.success ? 'completed' : 'failed',
+        percent: outcome.result.success ? 100 : job.percent,
+        platform: outcome.platform,
+        metadata: outcome.metadata,
+        cached: !!outcome.cached,
+        method: outcome.method,
+        result: outcome.result,
+        error: outcome.result.error
+      });
+    } catch (error) {
+      const { message, code, retryAfter } = toErrorInfo(error);
+      this.update(job, {
+        phase: 'failed',
+        error: message,
+        result: { success: false, error: message, errorCode: code, retryAfter }
+      });
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    for (const [id, { job }] of this.jobs) {
+      if (isTerminalPhase(job.phase) && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
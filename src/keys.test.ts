@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isValidKeyTemplate, renderObjectKey, sanitizeKeySegment, withCollisionSuffix } from './keys.js';
+
+const metadata = {
+  id: 'abc123',
+  title: 'Héllo / Wörld: Part 2',
+  uploader: 'Some Channel',
+  upload_date: '20240102',
+  duration: 60,
+  platform: 'youtube'
+};
+
+describe('sanitizeKeySegment', () => {
+  it('keeps only key-safe characters and strips diacritics', () => {
+    expect(sanitizeKeySegment('Héllo / Wörld')).toBe('Hello-World');
+  });
+
+  it('never yields path traversal or empty segments', () => {
+    expect(sanitizeKeySegment('..')).toBe('unknown');
+    expect(sanitizeKeySegment('///')).toBe('unknown');
+  });
+});
+
+describe('isValidKeyTemplate', () => {
+  it('accepts known placeholders and rejects unknown ones', () => {
+    expect(isValidKeyTemplate('{platform}/{id}-{title_slug}.{ext}')).toBe(true);
+    expect(isValidKeyTemplate('{platform}/{secret}')).toBe(false);
+  });
+});
+
+describe('renderObjectKey', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fills placeholders from the metadata', () => {
+    expect(renderObjectKey('{platform}/{uploader}/{upload_date}/{id}-{title_slug}.{ext}', {
+      kind: 'video',
+      platform: 'youtube',
+      ext: '.mp4',
+      metadata
+    })).toBe('youtube/Some-Channel/20240102/abc123-hello-world-part-2.mp4');
+  });
+
+  it('fills date and kind, and falls back when metadata is missing', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-04T05:06:07Z'));
+
+    expect(renderObjectKey('{kind}/{date}/{id}/{title}', { kind: 'audio', platform: 'tiktok', ext: 'mp3' }))
+      .toBe('audio/20250304/unknown/untitled.mp3');
+  });
+
+  it('drops empty and dot segments so keys cannot escape the template', () => {
+    expect(renderObjectKey('/a//../{id}/./x.{ext}', { kind: 'video', platform: 'youtube', ext: 'mp4', metadata }))
+      .toBe('a/abc123/x.mp4');
+  });
+
+  it('keeps over-long keys within the S3 limit without losing the extension', () => {
+    const key = renderObjectKey(`${'x'.repeat(2000)}/{id}`, { kind: 'video', platform: 'youtube', ext: 'mp4', metadata });
+    expect(Buffer.byteLength(key)).toBe(1024);
+    expect(key.endsWith('.mp4')).toBe(true);
+  });
+});
+
+describe('withCollisionSuffix', () => {
+  it('adds the suffix before the extension', () => {
+    expect(withCollisionSuffix('a/b.mp4', 2)).toBe('a/b-2.mp4');
+    expect(withCollisionSuffix('a/b.info.json', 3)).toBe('a/b.info-3.json');
+  });
+
+  it('appends the suffix to keys without an extension', () => {
+    expect(withCollisionSuffix('a.dir/b', 2)).toBe('a.dir/b-2');
+  });
+});
@@ -0,0 +1,112 @@
+import type { VideoMetadata } from './downloader.js';
+
+export type ObjectKind = 'video' | 'audio' | 'clip' | 'transcript' | 'thumbnail' | 'storyboard';
+
+export interface ObjectKeyContext {
+  kind: ObjectKind;
+  platform: string;
+  ext: string;
+  metadata?: VideoMetadata;
+}
+
+export const KEY_TEMPLATE_PLACEHOLDERS = [
+  'platform',
+  'kind',
+  'id',
+  'uploader',
+  'upload_date',
+  'title',
+  'title_slug',
+  'date',
+  'timestamp',
+  'ext'
+] as const;
+
+const MAX_SEGMENT_LENGTH = 80;
+const MAX_SLUG_LENGTH = 60;
+const MAX_KEY_BYTES = 1024;
+
+/**
+ * Make a value safe for use inside a single S3 key segment: ASCII letters,
+ * digits, dot, dash and underscore only, no path separators or dot-only names.
+ */
+export function sanitizeKeySegment(value: string, maxLength: number = MAX_SEGMENT_LENGTH): string {
+  const sanitized = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics left over after NFKD
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, maxLength)
+    .replace(/[-.]+$/g, '');
+
+  return sanitized || 'unknown';
+}
+
+export function slugify(value: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  return sanitizeKeySegment(value.toLowerCase().replace(/[._]+/g, '-'), maxLength);
+}
+
+export function isValidKeyTemplate(template: string): boolean {
+  const placeholders = [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+  return placeholders.every(name => (KEY_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Render an object key template such as
+ * `{platform}/{uploader}/{upload_date}/{id}-{title_slug}.{ext}`.
+ * Templates are expected to pass isValidKeyTemplate; unknown placeholders are left as-is.
+ */
+export function renderObjectKey(template: string, context: ObjectKeyContext): string {
+  const { metadata } = context;
+  const ext = context.ext.replace(/^\./, '');
+
+  const values: Record<(typeof KEY_TEMPLATE_PLACEHOLDERS)[number], string> = {
+    platform: sanitizeKeySegment(context.platform),
+    kind: context.kind,
+    id: sanitizeKeySegment(metadata?.id || 'unknown'),
+    uploader: sanitizeKeySegment(metadata?.uploader || 'unknown'),
+    upload_date: sanitizeKeySegment(metadata?.upload_date || 'unknown'),
+    title: sanitizeKeySegment(metadata?.title || 'untitled'),
+    title_slug: slugify(metadata?.title || 'untitled'),
+    date: today(),
+    timestamp: String(Date.now()),
+    ext: sanitizeKeySegment(ext)
+  };
+
+  let key = template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? values[name as keyof typeof values] : placeholder
+  );
+
+  key = key
+    .split('/')
+    .filter(segment => segment.length > 0 && segment !== '.' && segment !== '..')
+    .join('/');
+
+  if (ext && !key.endsWith(`.${ext}`)) {
+    key = `${key}.${ext}`;
+  }
+
+  // Keep within the S3 key length limit while preserving the extension
+  if (Buffer.byteLength(key) > MAX_KEY_BYTES) {
+    const suffix = ext ? `.${ext}` : '';
+    key = key.slice(0, MAX_KEY_BYTES - suffix.length) + suffix;
+  }
+
+  return key;
+}
+
+/**
+ * Add a numeric suffix before the extension, used to resolve key collisions:
+ * `a/b.mp4` → `a/b-2.mp4`.
+ */
+export function withCollisionSuffix(key: string, attempt: number): string {
+  const match = key.match(/^(.*?)(\.[^./]+)?$/);
+  const base = match?.[1] ?? key;
+  const extension = match?.[2] ?? '';
+  return `${base}-${attempt}${extension}`;
+}
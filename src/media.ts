@@ -0,0 +1,378 @@
+import { spawn } from 'child_process';
+
+export type ImageFormat = 'jpeg' | 'webp';
+
+export type AudioFormat = 'mp3' | 'm4a' | 'opus' | 'flac' | 'wav';
+
+export interface AudioEncoding {
+  format: AudioFormat;
+  /** kbps, lossy formats only */
+  bitrate: number;
+  channels?: 1 | 2;
+  /** Hz, opus always uses 48000 */
+  sampleRate?: number;
+  /** Single-pass EBU R128 loudness normalization */
+  normalize: boolean;
+}
+
+// Encoder arguments per format; WAV has no cover art and Ogg cover art needs more than ffmpeg's attached_pic
+const AUDIO_CODECS: Record<AudioFormat, { args: (bitrate: number) => string[]; coverArt: boolean }> = {
+  mp3: { args: (bitrate) => ['-c:a', 'libmp3lame', '-b:a', `${bitrate}k`, '-id3v2_version', '3'], coverArt: true },
+  m4a: { args: (bitrate) => ['-c:a', 'aac', '-b:a', `${bitrate}k`, '-movflags', '+faststart'], coverArt: true },
+  opus: { args: (bitrate) => ['-c:a', 'libopus', '-b:a', `${bitrate}k`], coverArt: false },
+  flac: { args: () => ['-c:a', 'flac'], coverArt: true },
+  wav: { args: () => ['-c:a', 'pcm_s16le'], coverArt: false }
+};
+
+// EBU R128 targets for spoken word and music streaming
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+export function supportsCoverArt(format: AudioFormat): boolean {
+  return AUDIO_CODECS[format].coverArt;
+}
+
+export interface ProbedStream {
+  codec_type: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaProbe {
+  /** Seconds, NaN when the container does not report one */
+  duration: number;
+  formatName?: string;
+  streams: ProbedStream[];
+}
+
+// `ffprobe -of json` output, only the entries asked for with -show_entries are present
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+}
+
+interface FfprobeFormat {
+  /** Seconds as a decimal string */
+  duration?: string;
+  format_name?: string;
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: FfprobeFormat;
+}
+
+export interface SceneChange {
+  /** Seconds from the start of the video */
+  timestamp: number;
+  /** ffmpeg scene score between 0 and 1, higher is a bigger visual change */
+  score: number;
+}
+
+export interface TimeRange {
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+}
+
+export class MediaProcessingService {
+  private readonly tempDir: string;
+
+  constructor(tempDir: string = '/tmp') {
+    this.tempDir = tempDir;
+  }
+
+  /**
+   * Run ffmpeg and collect stdout. Input can be piped through stdin by passing
+   * `pipe:0` as the input and providing `stdin`. Aborting `signal` kills ffmpeg.
+   */
+  private runFfmpeg(args: string[], stdin?: Buffer, signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const process = spawn('ffmpeg', ['-hide_banner', '-loglevel', 'error', ...args], {
+        cwd: this.tempDir,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        signal
+      });
+
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      process.stdout.on('data', (data: Buffer) => {
+        chunks.push(data);
+      });
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`ffmpeg failed with code ${code}: ${stderr.substring(0, 200)}`));
+        }
+      });
+
+      process.on('error', (error) => {
+        reject(new Error(`ffmpeg process error: ${error.message}`));
+      });
+
+      if (stdin) {
+        process.stdin.on('error', () => {
+          // ffmpeg may close stdin early once it has read enough, ignore EPIPE
+        });
+        process.stdin.end(stdin);
+      } else {
+        process.stdin.end();
+      }
+    });
+  }
+
+  /**
+   * Run ffprobe on a local file and parse its JSON output.
+   */
+  private runFfprobe(args: string[], input: string): Promise<FfprobeOutput> {
+    return new Promise((resolve, reject) => {
+      const process = spawn('ffprobe', ['-v', 'error', '-of', 'json', ...args, input], {
+        cwd: this.tempDir,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      let stdout = '';
+      let stderr = '';
+
+      process.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`ffprobe failed with code ${code}: ${stderr.substring(0, 200)}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(stdout));
+        } catch {
+          reject(new Error('ffprobe returned invalid JSON'));
+        }
+      });
+
+      process.on('error', (error) => {
+        reject(new Error(`ffprobe process error: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Container duration and streams of a local media file.
+   */
+  async probe(filePath: string): Promise<MediaProbe> {
+    const probe = await this.runFfprobe([
+      '-show_entries', 'format=duration,format_name:stream=codec_type,codec_name,width,height'
+    ], filePath);
+
+    return {
+      duration: parseFloat(probe.format?.duration ?? ''),
+      formatName: probe.format?.format_name,
+      streams: (probe.streams || []).map(stream => ({
+        codec_type: stream.codec_type || 'unknown',
+        codec_name: stream.codec_name,
+        width: stream.width,
+        height: stream.height
+      }))
+    };
+  }
+
+  /**
+   * Exact duration in seconds of a local media file, from its container.
+   */
+  async probeDuration(filePath: string): Promise<number> {
+    const { duration } = await this.probe(filePath);
+    if (!Number.isFinite(duration)) {
+      throw new Error(`Could not determine the duration of ${filePath}`);
+    }
+    return duration;
+  }
+
+  /**
+   * Encode the audio of a local file into `output`, replacing its tags with
+   * `tags` and embedding `coverPath` as front cover where the format allows.
+   */
+  async encodeAudio(input: string, output: string, encoding: AudioEncoding, tags: Record<string, string> = {}, coverPath?: string, signal?: AbortSignal): Promise<void> {
+    const codec = AUDIO_CODECS[encoding.format];
+    const withCover = !!coverPath && codec.coverArt;
+    // loudnorm resamples to 192 kHz internally, so the rate must always be set when normalizing
+    const sampleRate = encoding.format === 'opus'
+      ? 48000
+      : encoding.sampleRate ?? (encoding.normalize ? 48000 : undefined);
+
+    await this.runFfmpeg([
+      '-y',
+      '-i', input,
+      ...(withCover ? ['-i', coverPath] : []),
+      '-map', '0:a:0',
+      ...(withCover ? ['-map', '1:v:0', '-c:v', 'copy', '-disposition:v:0', 'attached_pic'] : []),
+      '-map_metadata', '-1',
+      ...Object.entries(tags).flatMap(([name, value]) => ['-metadata', `${name}=${value}`]),
+      ...(encoding.normalize ? ['-af', LOUDNORM_FILTER] : []),
+      ...(encoding.channels ? ['-ac', String(encoding.channels)] : []),
+      ...(sampleRate ? ['-ar', String(sampleRate)] : []),
+      ...codec.args(encoding.bitrate),
+      output
+    ], undefined, signal);
+  }
+
+  /**
+   * Re-encode a local file into `output` with the given ffmpeg output arguments.
+   */
+  async transcode(input: string, output: string, args: string[], signal?: AbortSignal): Promise<void> {
+    await this.runFfmpeg(['-y', '-i', input, ...args, output], undefined, signal);
+  }
+
+  /**
+   * Cut a time range out of a local video into `output`. Stream copy is fast but
+   * starts on the keyframe before `start`; `accurate` re-encodes to H.264/AAC so
+   * the clip starts and ends on the exact frames.
+   */
+  async trimVideo(input: string, range: TimeRange, output: string, accurate: boolean = false, signal?: AbortSignal): Promise<void> {
+    const codecArgs = accurate
+      ? ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-c:a', 'aac', '-b:a', '160k', '-movflags', '+faststart']
+      : ['-c', 'copy', '-avoid_negative_ts', 'make_zero'];
+
+    await this.runFfmpeg([
+      '-y',
+      '-ss', String(range.start),
+      '-i', input,
+      '-t', String(range.end - range.start),
+      '-map', '0:v?',
+      '-map', '0:a?',
+      ...codecArgs,
+      output
+    ], undefined, signal);
+  }
+
+  private imageCodecArgs(format: ImageFormat): string[] {
+    return format === 'webp'
+      ? ['-c:v', 'libwebp', '-quality', '85']
+      : ['-c:v', 'mjpeg', '-q:v', '3'];
+  }
+
+  /**
+   * Grab a single frame from a local file or remote stream URL.
+   */
+  async extractFrame(input: string, timestamp: number = 0, format: ImageFormat = 'jpeg', headers?: Record<string, string>, proxyUrl?: string): Promise<Buffer> {
+    const headerArgs = headers && /^https?:/.test(input)
+      ? ['-headers', Object.entries(headers).map(([key, value]) => `${key}: ${value}\r\n`).join('')]
+      : [];
+    // ffmpeg's http protocol only speaks HTTP proxies, SOCKS proxied streams are read directly
+    const proxyArgs = proxyUrl && /^http:/.test(proxyUrl) && /^https?:/.test(input)
+      ? ['-http_proxy', proxyUrl]
+      : [];
+
+    const frame = await this.runFfmpeg([
+      ...headerArgs,
+      ...proxyArgs,
+      '-ss', String(Math.max(0, timestamp)),
+      '-i', input,
+      '-frames:v', '1',
+      ...this.imageCodecArgs(format),
+      '-f', 'image2pipe',
+      'pipe:1'
+    ]);
+
+    if (frame.length === 0) {
+      throw new Error(`No frame could be extracted at ${timestamp}s (timestamp may be past the end of the video)`);
+    }
+
+    return frame;
+  }
+
+  /**
+   * Grab frames of a local video at the given timestamps, scaled to `width`.
+   */
+  async extractFrames(input: string, timestamps: number[], width: number, signal?: AbortSignal): Promise<Buffer[]> {
+    const frames: Buffer[] = [];
+
+    for (const timestamp of timestamps) {
+      const frame = await this.runFfmpeg([
+        '-ss', String(Math.max(0, timestamp)),
+        '-i', input,
+        '-frames:v', '1',
+        '-vf', `scale=${width}:-2`,
+        ...this.imageCodecArgs('jpeg'),
+        '-f', 'image2pipe',
+        'pipe:1'
+      ], undefined, signal);
+
+      if (frame.length === 0) {
+        throw new Error(`No frame could be extracted at ${timestamp}s`);
+      }
+      frames.push(frame);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Find cuts in a local video with ffmpeg's scene score. Frames are scored on a
+   * small copy, which is much faster and detects the same cuts.
+   */
+  async detectSceneChanges(input: string, threshold: number, signal?: AbortSignal): Promise<SceneChange[]> {
+    const output = await this.runFfmpeg([
+      '-i', input,
+      '-an',
+      '-vf', `scale=160:-2,select='gt(scene,${threshold})',metadata=print:file=-`,
+      '-f', 'null',
+      '-'
+    ], undefined, signal);
+
+    // metadata=print writes "frame:0 pts:1234 pts_time:12.3" followed by "lavfi.scene_score=0.45"
+    const changes: SceneChange[] = [];
+    for (const match of output.toString().matchAll(/pts_time:([\d.]+)\s+lavfi\.scene_score=([\d.]+)/g)) {
+      changes.push({ timestamp: parseFloat(match[1]), score: parseFloat(match[2]) });
+    }
+    return changes;
+  }
+
+  /**
+   * Tile equally sized JPEG frames into a single contact sheet, left to right
+   * and top to bottom.
+   */
+  async composeContactSheet(frames: Buffer[], columns: number, signal?: AbortSignal): Promise<Buffer> {
+    const rows = Math.ceil(frames.length / columns);
+
+    return this.runFfmpeg([
+      '-f', 'image2pipe',
+      '-c:v', 'mjpeg',
+      '-i', 'pipe:0',
+      '-vf', `tile=${columns}x${rows}:padding=4:margin=4`,
+      '-frames:v', '1',
+      ...this.imageCodecArgs('jpeg'),
+      '-f', 'image2pipe',
+      'pipe:1'
+    ], Buffer.concat(frames), signal);
+  }
+
+  /**
+   * Re-encode an image to JPEG or WebP, optionally scaling to a width
+   * while preserving the aspect ratio.
+   */
+  async convertImage(image: Buffer, format: ImageFormat, width?: number): Promise<Buffer> {
+    const scaleArgs = width ? ['-vf', `scale=${width}:-2`] : [];
+
+    return this.runFfmpeg([
+      '-i', 'pipe:0',
+      ...scaleArgs,
+      '-frames:v', '1',
+      ...this.imageCodecArgs(format),
+      '-f', 'image2pipe',
+      'pipe:1'
+    ], image);
+  }
+}
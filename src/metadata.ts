@@ -0,0 +1,52 @@
+import type { VideoMetadata } from './downloader.js';
+import type { CloudStorageService, UploadResult } from './storage.js';
+import type { StoredFile } from './types.js';
+
+export interface MetadataSidecar {
+  sourceUrl: string;
+  platform: string;
+  objectKey: string;
+  publicUrl: string;
+  fileSize?: number;
+  files?: StoredFile[];
+  uploadedAt: string;
+  metadata?: VideoMetadata;
+}
+
+/**
+ * S3 user metadata attached to every uploaded object so the bucket can be
+ * indexed without re-querying the source platform.
+ */
+export function toObjectMetadata(sourceUrl: string, platform: string, metadata?: VideoMetadata): Record<string, string> {
+  const objectMetadata: Record<string, string> = {
+    'source-url': sourceUrl,
+    platform
+  };
+
+  if (metadata?.id) objectMetadata['video-id'] = metadata.id;
+  if (metadata?.title) objectMetadata.title = metadata.title;
+  if (metadata?.uploader) objectMetadata.uploader = metadata.uploader;
+  if (metadata?.duration) objectMetadata.duration = String(metadata.duration);
+
+  return objectMetadata;
+}
+
+/**
+ * Sidecar key next to the media object, following yt-dlp's naming:
+ * `youtube/abc.mp4` → `youtube/abc.info.json`.
+ */
+export function sidecarKeyFor(objectKey: string): string {
+  return objectKey.replace(/(\.[^./]+)?$/, '.info.json');
+}
+
+export async function uploadMetadataSidecar(storage: CloudStorageService, sidecar: MetadataSidecar): Promise<UploadResult> {
+  return storage.uploadBuffer(
+    Buffer.from(JSON.stringify(sidecar, null, 2), 'utf-8'),
+    'metadata.json',
+    '',
+    {
+      key: sidecarKeyFor(sidecar.objectKey),
+      metadata: toObjectMetadata(sidecar.sourceUrl, sidecar.platform, sidecar.metadata)
+    }
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import type { DownloadJob } from './jobs.js';
+import { cancelOutputSchema, jobOutput, jobOutputSchema, mediaOutput, mediaOutputSchema } from './output.js';
+
+const failedJob: DownloadJob = {
+  id: 'job-1',
+  url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+  phase: 'failed',
+  percent: 40,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:01:00.000Z',
+  platform: 'youtube',
+  error: 'Rate limited by youtube',
+  result: { success: false, error: 'Rate limited by youtube', errorCode: 'RATE_LIMITED', retryAfter: 30 }
+};
+
+const toolError = { code: 'RATE_LIMITED', message: 'Rate limited by youtube', retryable: true, retryAfter: 30 };
+
+describe('jobOutput', () => {
+  it('round-trips a failed job through its own schema', () => {
+    const output = jobOutput(failedJob);
+    const parsed = z.object(jobOutputSchema).parse(output);
+
+    expect(parsed).toMatchObject({ jobId: 'job-1', phase: 'failed', failureMessage: 'Rate limited by youtube', errorCode: 'RATE_LIMITED' });
+    expect(parsed.error).toBeUndefined();
+  });
+
+  it('round-trips a completed job with stored files and metadata', () => {
+    const output = jobOutput({
+      ...failedJob,
+      phase: 'completed',
+      percent: 100,
+      error: undefined,
+      method: 'yt-dlp',
+      metadata: { title: 'Video', uploader: 'Channel', duration: 12, platform: 'youtube', direct_url: 'https://cdn.example.com/v.mp4' },
+      result: {
+        success: true,
+        publicUrl: 'https://cdn.example.com/a.mp4',
+        objectKey: 'youtube/a.mp4',
+        files: [{ index: 1, mediaType: 'video', publicUrl: 'https://cdn.example.com/a.mp4', objectKey: 'youtube/a.mp4' }]
+      }
+    });
+
+    expect(z.object(jobOutputSchema).parse(output)).toEqual(output);
+    expect(output.mimeType).toBe('video/mp4');
+    expect(output.metadata).not.toHaveProperty('direct_url');
+  });
+
+  it('validates inside the cancel_job output', () => {
+    expect(() => z.object(cancelOutputSchema).parse({ cancelled: false, reason: 'Job already finished', job: jobOutput(failedJob) })).not.toThrow();
+  });
+});
+
+describe('tool output schemas', () => {
+  it('accept the structured error of a failed call', () => {
+    expect(z.object(jobOutputSchema).parse({ error: toolError })).toEqual({ error: toolError });
+    expect(z.object(mediaOutputSchema).parse({ error: toolError })).toEqual({ error: toolError });
+  });
+
+  it('accept a stored download', () => {
+    const output = mediaOutput('youtube', {
+      success: true,
+      publicUrl: 'https://cdn.example.com/a.mp3',
+      objectKey: 'youtube/a.mp3',
+      fileSize: 1024
+    }, { metadata: { title: 'Video', uploader: 'Channel', duration: 12, platform: 'youtube' } });
+
+    expect(z.object(mediaOutputSchema).parse(output)).toMatchObject({ method: 'yt-dlp', cached: false, mimeType: 'audio/mpeg', duration: 12 });
+  });
+});
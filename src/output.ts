@@ -0,0 +1,392 @@
+import { z } from 'zod';
+import { lookup } from 'mime-types';
+import type { VideoMetadata } from './downloader.js';
+import type { DedupEntry } from './dedup.js';
+import type { DownloadJob } from './jobs.js';
+import type { PlaylistDownloadResult } from './playlist.js';
+import { detectPlatform } from './extractors/index.js';
+import { ERROR_CODES } from './errors.js';
+import type { DownloadResult, StoredClip, StoredFile, VideoFormat } from './types.js';
+
+const errorCodeSchema = z.enum(ERROR_CODES);
+
+const errorSchema = z.object({
+  code: errorCodeSchema,
+  message: z.string(),
+  retryable: z.boolean(),
+  retryAfter: z.number().optional().describe('Seconds to wait before retrying')
+});
+
+const metadataSchema = z.object({
+  id: z.string().optional(),
+  title: z.string(),
+  uploader: z.string().optional(),
+  uploader_id: z.string().optional(),
+  duration: z.number().optional().describe('Duration in seconds'),
+  view_count: z.number().optional(),
+  like_count: z.number().optional(),
+  comment_count: z.number().optional(),
+  upload_date: z.string().optional().describe('YYYYMMDD'),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  categories: z.array(z.string()).optional(),
+  thumbnail_url: z.string().optional(),
+  webpage_url: z.string().optional(),
+  extractor: z.string().optional(),
+  platform: z.string(),
+  quality: z.string().optional(),
+  ext: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  fps: z.number().optional(),
+  vcodec: z.string().optional(),
+  acodec: z.string().optional()
+}).describe('Video metadata reported by the platform');
+
+const storedFileSchema = z.object({
+  index: z.number().int(),
+  mediaType: z.enum(['video', 'image']),
+  publicUrl: z.string(),
+  objectKey: z.string(),
+  filename: z.string().optional(),
+  fileSize: z.number().optional(),
+  mimeType: z.string()
+});
+
+const formatSchema = z.object({
+  format_id: z.string(),
+  ext: z.string(),
+  resolution: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  fps: z.number().optional(),
+  vcodec: z.string().optional(),
+  acodec: z.string().optional(),
+  tbr: z.number().optional().describe('Total bitrate in kbps'),
+  vbr: z.number().optional(),
+  abr: z.number().optional(),
+  filesize: z.number().optional().describe('Size in bytes, exact or estimated'),
+  filesize_estimated: z.boolean().optional(),
+  audio_only: z.boolean().optional(),
+  video_only: z.boolean().optional(),
+  format_note: z.string().optional(),
+  protocol: z.string().optional()
+});
+
+const jobSchema = z.object({
+  jobId: z.string(),
+  url: z.string(),
+  platform: z.string(),
+  phase: z.enum(['queued', 'resolving', 'downloading', 'post-processing', 'uploading', 'completed', 'failed', 'cancelled']),
+  percent: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  cached: z.boolean().optional(),
+  method: z.string().optional(),
+  publicUrl: z.string().optional(),
+  objectKey: z.string().optional(),
+  filename: z.string().optional(),
+  fileSize: z.number().optional(),
+  mimeType: z.string().optional(),
+  files: z.array(storedFileSchema).optional(),
+  metadata: metadataSchema.optional(),
+  // Not `error`: that name belongs to the tool-level error object of every output schema
+  failureMessage: z.string().optional().describe('Why the job failed'),
+  errorCode: errorCodeSchema.optional()
+});
+
+/**
+ * Output schema of a tool. Clients validate the structured content of failed
+ * calls too, so every field is optional and a failure carries only `error`.
+ */
+function toolOutput<T extends z.ZodRawShape>(shape: T) {
+  return { ...z.object(shape).partial().shape, error: errorSchema.optional() };
+}
+
+export const connectionOutputSchema = toolOutput({
+  connected: z.boolean(),
+  endpoint: z.string(),
+  region: z.string(),
+  bucket: z.string()
+});
+
+export const diagnosticsOutputSchema = toolOutput({
+  version: z.string(),
+  storage: z.object({
+    connected: z.boolean(),
+    error: z.string().optional()
+  }),
+  proxy: z.string().describe('Outbound proxy routing summary'),
+  speechToText: z.string().describe('Local speech-to-text backend, "not configured" when transcription is unavailable'),
+  platforms: z.array(z.object({
+    platform: z.string(),
+    successRate: z.string(),
+    authRequired: z.boolean(),
+    access: z.string(),
+    notes: z.string()
+  }))
+});
+
+export const mediaOutputSchema = toolOutput({
+  platform: z.string(),
+  method: z.string().describe('Download method that produced the file, e.g. yt-dlp or instagram-graphql, "cache" when an existing copy was returned'),
+  cached: z.boolean(),
+  publicUrl: z.string(),
+  objectKey: z.string(),
+  filename: z.string().optional(),
+  fileSize: z.number().optional().describe('Size in bytes'),
+  mimeType: z.string(),
+  duration: z.number().optional().describe('Duration in seconds'),
+  metadata: metadataSchema.optional(),
+  sidecarKey: z.string().optional().describe('Object key of the .info.json metadata sidecar'),
+  files: z.array(storedFileSchema).optional().describe('Every stored item of a multi-media post, the first one is also in the fields above')
+});
+
+export const clipOutputSchema = toolOutput({
+  platform: z.string(),
+  method: z.enum(['download-sections', 'ffmpeg']).describe('yt-dlp section download, or a full download trimmed with ffmpeg'),
+  accurate: z.boolean().describe('Whether the clips were re-encoded for frame-accurate cuts'),
+  metadata: metadataSchema.optional(),
+  clips: z.array(z.object({
+    index: z.number().int(),
+    start: z.number(),
+    end: z.number(),
+    duration: z.number().describe('Exact clip duration in seconds'),
+    publicUrl: z.string(),
+    objectKey: z.string(),
+    filename: z.string().optional(),
+    fileSize: z.number(),
+    mimeType: z.string()
+  }))
+});
+
+export const storyboardOutputSchema = toolOutput({
+  platform: z.string(),
+  mode: z.enum(['interval', 'scene']),
+  duration: z.number().describe('Video duration in seconds'),
+  sheet: z.object({
+    publicUrl: z.string(),
+    objectKey: z.string(),
+    fileSize: z.number(),
+    mimeType: z.string(),
+    columns: z.number().int(),
+    rows: z.number().int()
+  }).describe('Contact sheet of every frame, left to right and top to bottom'),
+  frames: z.array(z.object({
+    index: z.number().int(),
+    timestamp: z.number().describe('Seconds from the start of the video'),
+    publicUrl: z.string().optional(),
+    objectKey: z.string().optional(),
+    fileSize: z.number()
+  })),
+  metadata: metadataSchema.optional()
+});
+
+export const playlistOutputSchema = toolOutput({
+  platform: z.string(),
+  sourceUrl: z.string(),
+  playlistId: z.string().optional(),
+  title: z.string().optional(),
+  uploader: z.string().optional(),
+  totalListed: z.number(),
+  skippedSeen: z.number(),
+  skippedByDate: z.number(),
+  downloaded: z.number(),
+  cached: z.number(),
+  failed: z.number(),
+  manifestKey: z.string().optional(),
+  manifestUrl: z.string().optional(),
+  entries: z.array(z.object({
+    index: z.number(),
+    url: z.string(),
+    id: z.string().optional(),
+    title: z.string().optional(),
+    upload_date: z.string().optional(),
+    status: z.enum(['downloaded', 'cached', 'failed']),
+    publicUrl: z.string().optional(),
+    objectKey: z.string().optional(),
+    fileSize: z.number().optional(),
+    mimeType: z.string().optional(),
+    error: z.string().optional(),
+    errorCode: errorCodeSchema.optional()
+  }))
+});
+
+export const jobOutputSchema = toolOutput(jobSchema.shape);
+
+export const cancelOutputSchema = toolOutput({
+  cancelled: z.boolean(),
+  reason: z.string().optional(),
+  job: jobSchema.optional()
+});
+
+export const formatsOutputSchema = toolOutput({
+  platform: z.string(),
+  metadata: metadataSchema.optional(),
+  formats: z.array(formatSchema).describe('Best first')
+});
+
+export const metadataOutputSchema = toolOutput({
+  platform: z.string(),
+  successRate: z.string(),
+  metadata: metadataSchema
+});
+
+export const transcriptOutputSchema = toolOutput({
+  platform: z.string(),
+  publicUrl: z.string(),
+  objectKey: z.string(),
+  filename: z.string().optional(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+  format: z.enum(['txt', 'vtt', 'srt', 'json']),
+  language: z.string().optional(),
+  automatic: z.boolean().describe('Whether the captions were auto-generated'),
+  speech: z.boolean().describe('Whether the transcript was produced from the audio by local speech-to-text'),
+  segmentCount: z.number(),
+  segments: z.array(z.object({
+    start: z.number().describe('Seconds from the start of the video'),
+    end: z.number(),
+    text: z.string()
+  })),
+  transcript: z.string().describe('Plain transcript text'),
+  files: z.array(z.object({
+    format: z.enum(['txt', 'vtt', 'srt', 'json']),
+    publicUrl: z.string(),
+    objectKey: z.string()
+  })).describe('Every stored file, speech transcripts are also stored as SRT, VTT and plain text'),
+  metadata: metadataSchema.optional()
+});
+
+export const thumbnailOutputSchema = toolOutput({
+  platform: z.string(),
+  publicUrl: z.string(),
+  objectKey: z.string(),
+  filename: z.string().optional(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+  source: z.enum(['platform', 'frame']),
+  timestamp: z.number().optional().describe('Position in seconds of the captured frame'),
+  width: z.number().optional(),
+  metadata: metadataSchema.optional()
+});
+
+// yt-dlp reports missing fields as null, which the SDK's validation of structured results rejects
+function withoutNulls<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null && field !== undefined)) as T;
+}
+
+export function mimeTypeFor(objectKey: string): string {
+  return lookup(objectKey) || 'application/octet-stream';
+}
+
+export function metadataOutput(metadata?: VideoMetadata) {
+  if (!metadata) return undefined;
+  const { direct_url, ...fields } = withoutNulls(metadata);
+  return fields;
+}
+
+function storedFilesOutput(files?: StoredFile[]) {
+  return files?.map(file => ({ ...withoutNulls(file), mimeType: mimeTypeFor(file.objectKey) }));
+}
+
+export function mediaOutput(platform: string, result: DownloadResult, options: {
+  method?: string;
+  cached?: DedupEntry;
+  metadata?: VideoMetadata;
+  sidecarKey?: string;
+}) {
+  const objectKey = result.objectKey!;
+  return {
+    platform,
+    method: options.method || 'yt-dlp',
+    cached: !!options.cached,
+    publicUrl: result.publicUrl!,
+    objectKey,
+    filename: result.filename,
+    fileSize: result.fileSize,
+    mimeType: mimeTypeFor(objectKey),
+    duration: options.metadata?.duration ?? undefined,
+    metadata: metadataOutput(options.metadata),
+    sidecarKey: options.sidecarKey,
+    files: storedFilesOutput(result.files)
+  };
+}
+
+export function clipOutput(platform: string, clips: StoredClip[], options: {
+  method?: 'download-sections' | 'ffmpeg';
+  accurate: boolean;
+  metadata?: VideoMetadata;
+}) {
+  return {
+    platform,
+    method: options.method || 'download-sections',
+    accurate: options.accurate,
+    metadata: metadataOutput(options.metadata),
+    clips: clips.map(clip => ({ ...withoutNulls(clip), mimeType: mimeTypeFor(clip.objectKey) }))
+  };
+}
+
+export function playlistOutput(result: PlaylistDownloadResult) {
+  const manifest = result.manifest!;
+  const count = (status: string) => manifest.entries.filter(entry => entry.status === status).length;
+
+  return {
+    platform: manifest.platform,
+    sourceUrl: manifest.sourceUrl,
+    playlistId: manifest.playlistId ?? undefined,
+    title: manifest.title ?? undefined,
+    uploader: manifest.uploader ?? undefined,
+    totalListed: manifest.totalListed,
+    skippedSeen: manifest.skippedSeen,
+    skippedByDate: manifest.skippedByDate,
+    downloaded: count('downloaded'),
+    cached: count('cached'),
+    failed: count('failed'),
+    manifestKey: result.manifestUpload?.key,
+    manifestUrl: result.manifestUpload?.publicUrl,
+    entries: manifest.entries.map(entry => withoutNulls({
+      index: entry.index,
+      url: entry.url,
+      id: entry.id,
+      title: entry.title,
+      upload_date: entry.upload_date,
+      status: entry.status,
+      publicUrl: entry.result.publicUrl,
+      objectKey: entry.result.objectKey,
+      fileSize: entry.result.fileSize,
+      mimeType: entry.result.objectKey ? mimeTypeFor(entry.result.objectKey) : undefined,
+      error: entry.result.error,
+      errorCode: entry.result.errorCode
+    }))
+  };
+}
+
+export function jobOutput(job: DownloadJob) {
+  const stored = job.result?.success ? job.result : undefined;
+  return {
+    jobId: job.id,
+    url: job.url,
+    platform: job.platform || detectPlatform(job.url),
+    phase: job.phase,
+    percent: job.percent,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    cached: job.cached,
+    method: job.method,
+    publicUrl: stored?.publicUrl,
+    objectKey: stored?.objectKey,
+    filename: stored?.filename,
+    fileSize: stored?.fileSize,
+    mimeType: stored?.objectKey ? mimeTypeFor(stored.objectKey) : undefined,
+    files: storedFilesOutput(stored?.files),
+    metadata: metadataOutput(job.metadata),
+    failureMessage: job.error,
+    errorCode: job.result?.errorCode
+  };
+}
+
+export function formatOutput(format: VideoFormat) {
+  const { url, quality, ...fields } = withoutNulls(format);
+  return fields;
+}
@@ -0,0 +1,325 @@
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import {
+  audioCacheKey,
+  formatCacheKey,
+  type AudioOptions,
+  type ClipMethod,
+  type DownloadProgress,
+  type FormatOptions,
+  type ProfessionalVideoDownloaderService,
+  type VideoMetadata
+} from './downloader.js';
+import type { CloudStorageService, MultipartSettings, UploadProgress } from './storage.js';
+import type { PlatformCredentials } from './cookies.js';
+import type { DeduplicationIndex, DedupEntry } from './dedup.js';
+import { renderObjectKey } from './keys.js';
+import { toObjectMetadata, uploadMetadataSidecar } from './metadata.js';
+import type { TimeRange } from './media.js';
+import type { TranscodeProfileName } from './transcode.js';
+import type { ClipResult, DownloadResult, StoredClip, StoredFile } from './types.js';
+
+export type MediaKind = 'video' | 'audio';
+
+export interface PipelineOptions {
+  dedup?: DeduplicationIndex;
+}
+
+/**
+ * Storage settings of the calling session. The pipeline is shared between
+ * sessions, so these travel with every request.
+ */
+export interface UploadSettings {
+  /** Object key template, random keys without one */
+  keyTemplate?: string;
+  /** Upload a .info.json object with the full metadata next to each video and audio file */
+  metadataSidecar?: boolean;
+  multipart?: MultipartSettings;
+}
+
+export interface CloudDownloadRequest {
+  force?: boolean;
+  format?: FormatOptions;
+  /** Transcoding profile applied to downloaded videos before upload */
+  profile?: TranscodeProfileName;
+  /** Output settings of audio downloads */
+  audio?: AudioOptions;
+  signal?: AbortSignal;
+  credentials?: PlatformCredentials;
+  upload?: UploadSettings;
+  onDownloadProgress?: (progress: DownloadProgress) => void;
+  onUploadStart?: () => void;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export interface CloudDownloadOutcome {
+  platform: string;
+  result: DownloadResult;
+  metadata?: VideoMetadata;
+  cached?: DedupEntry;
+  sidecarKey?: string;
+  /** Download method that produced the file, `cache` for a deduplication hit */
+  method?: string;
+}
+
+export interface CloudClipRequest extends CloudDownloadRequest {
+  /** Re-encode so clips start and end on the exact frames */
+  accurate?: boolean;
+}
+
+export interface CloudClipOutcome {
+  platform: string;
+  result: ClipResult;
+  metadata?: VideoMetadata;
+  method?: ClipMethod;
+}
+
+/**
+ * Download → upload → index sequence shared by the download tools, background
+ * jobs and playlist downloads. Download failures are returned in `result`,
+ * storage failures are thrown like the rest of CloudStorageService.
+ */
+export class CloudDownloadPipeline {
+  private readonly downloader: ProfessionalVideoDownloaderService;
+  private readonly storage: CloudStorageService;
+  private readonly options: PipelineOptions;
+
+  constructor(downloader: ProfessionalVideoDownloaderService, storage: CloudStorageService, options: PipelineOptions = {}) {
+    this.downloader = downloader;
+    this.storage = storage;
+    this.options = options;
+  }
+
+  cacheFormat(kind: MediaKind, request: Pick<CloudDownloadRequest, 'format' | 'profile' | 'audio'> = {}): string {
+    if (kind === 'audio') return audioCacheKey(request.audio);
+    const key = formatCacheKey('video', request.format);
+    return request.profile ? `${key}:profile=${request.profile}` : key;
+  }
+
+  async run(kind: MediaKind, url: string, request: CloudDownloadRequest = {}): Promise<CloudDownloadOutcome> {
+    const { dedup } = this.options;
+    const { keyTemplate, metadataSidecar } = request.upload || {};
+    const platform = this.downloader.detectPlatform(url);
+    const cacheFormat = this.cacheFormat(kind, request);
+
+    const cached = dedup && !request.force ? await dedup.lookup(url, platform, cacheFormat) : undefined;
+    if (cached) {
+      return {
+        platform,
+        metadata: cached.metadata,
+        cached,
+        method: 'cache',
+        result: {
+          success: true,
+          publicUrl: cached.publicUrl,
+          objectKey: cached.objectKey,
+          filename: cached.objectKey.split('/').pop(),
+          fileSize: cached.fileSize,
+          files: cached.files
+        }
+      };
+    }
+
+    const downloadOptions = {
+      format: request.format,
+      profile: request.profile,
+      audio: request.audio,
+      signal: request.signal,
+      credentials: request.credentials,
+      onProgress: request.onDownloadProgress
+    };
+    const download = kind === 'audio'
+      ? await this.downloader.downloadAudio(url, downloadOptions)
+      : await this.downloader.downloadVideo(url, downloadOptions);
+
+    if (!download.success || !download.filePath) {
+      return {
+        platform,
+        metadata: download.metadata,
+        result: { success: false, error: download.error, errorCode: download.errorCode, retryAfter: download.retryAfter }
+      };
+    }
+
+    request.onUploadStart?.();
+
+    // Carousel posts and multi-video tweets come back as several files, everything else as one
+    const localFiles = download.files || [{ filePath: download.filePath, mediaType: 'video' as const, index: 1 }];
+    const isMulti = localFiles.length > 1;
+    const sizes = await Promise.all(localFiles.map(async (file) => (await fs.stat(file.filePath)).size));
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+
+    const stored: StoredFile[] = [];
+    let uploadedBytes = 0;
+    try {
+      for (const [position, file] of localFiles.entries()) {
+        // Carousel items share the post metadata, give each its own {id} so template keys stay distinct
+        const itemMetadata = isMulti && download.metadata
+          ? { ...download.metadata, id: `${download.metadata.id}-${file.index}` }
+          : download.metadata;
+        const key = keyTemplate
+          ? renderObjectKey(keyTemplate, { kind, platform, ext: extname(file.filePath), metadata: itemMetadata })
+          : undefined;
+
+        const upload = await this.storage.uploadFile(file.filePath, `${kind}_${Date.now()}_`, {
+          key,
+          metadata: {
+            ...toObjectMetadata(url, platform, download.metadata),
+            ...(isMulti ? { 'item-index': String(file.index) } : {})
+          },
+          multipart: request.upload?.multipart,
+          signal: request.signal,
+          onProgress: request.onUploadProgress && ((progress) => request.onUploadProgress?.({
+            loadedBytes: uploadedBytes + progress.loadedBytes,
+            totalBytes
+          }))
+        });
+
+        uploadedBytes += sizes[position];
+        stored.push({
+          index: file.index,
+          mediaType: file.mediaType,
+          publicUrl: upload.publicUrl,
+          objectKey: upload.key,
+          filename: upload.key.split('/').pop(),
+          fileSize: sizes[position]
+        });
+      }
+    } catch (error) {
+      // uploadFile only removes a local file after its upload succeeded
+      await Promise.all(localFiles.slice(stored.length).map(file => this.downloader.cleanup(file.filePath)));
+      throw error;
+    }
+
+    const [primary] = stored;
+    const files = isMulti ? stored : undefined;
+
+    await dedup?.record({
+      platform,
+      format: cacheFormat,
+      objectKey: primary.objectKey,
+      publicUrl: primary.publicUrl,
+      fileSize: primary.fileSize,
+      files,
+      sourceUrl: url,
+      metadata: download.metadata
+    });
+
+    let sidecarKey: string | undefined;
+    if (metadataSidecar) {
+      try {
+        sidecarKey = (await uploadMetadataSidecar(this.storage, {
+          sourceUrl: url,
+          platform,
+          objectKey: primary.objectKey,
+          publicUrl: primary.publicUrl,
+          fileSize: primary.fileSize,
+          files,
+          uploadedAt: new Date().toISOString(),
+          metadata: download.metadata
+        })).key;
+      } catch (error) {
+        // The media itself is already stored, a missing sidecar should not fail the call
+        console.warn(`Failed to upload metadata sidecar for ${primary.objectKey}:`, error);
+      }
+    }
+
+    return {
+      platform,
+      metadata: download.metadata,
+      sidecarKey,
+      method: download.method,
+      result: {
+        success: true,
+        publicUrl: primary.publicUrl,
+        objectKey: primary.objectKey,
+        filename: primary.filename,
+        fileSize: primary.fileSize,
+        files
+      }
+    };
+  }
+
+  /**
+   * Download time ranges of a video and upload each as its own object. Clips are
+   * not deduplicated, the same ranges are cut again on every call.
+   */
+  async runClips(url: string, ranges: TimeRange[], request: CloudClipRequest = {}): Promise<CloudClipOutcome> {
+    const keyTemplate = request.upload?.keyTemplate;
+    const platform = this.downloader.detectPlatform(url);
+
+    const download = await this.downloader.downloadClips(url, ranges, {
+      format: request.format,
+      signal: request.signal,
+      credentials: request.credentials,
+      accurateCuts: request.accurate,
+      onProgress: request.onDownloadProgress
+    });
+
+    if (!download.success || !download.clips) {
+      return {
+        platform,
+        metadata: download.metadata,
+        result: { success: false, error: download.error, errorCode: download.errorCode, retryAfter: download.retryAfter }
+      };
+    }
+
+    request.onUploadStart?.();
+
+    const localClips = download.clips;
+    const sizes = await Promise.all(localClips.map(async (clip) => (await fs.stat(clip.filePath)).size));
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+
+    const stored: StoredClip[] = [];
+    let uploadedBytes = 0;
+    try {
+      for (const [position, clip] of localClips.entries()) {
+        const { start, end } = clip.range;
+        // Give each clip its own {id} so template keys stay distinct
+        const clipMetadata = download.metadata
+          ? { ...download.metadata, id: `${download.metadata.id}-${start}-${end}`, duration: clip.duration }
+          : undefined;
+        const key = keyTemplate
+          ? renderObjectKey(keyTemplate, { kind: 'clip', platform, ext: extname(clip.filePath), metadata: clipMetadata })
+          : undefined;
+
+        const upload = await this.storage.uploadFile(clip.filePath, `clip_${Date.now()}_`, {
+          key,
+          metadata: {
+            ...toObjectMetadata(url, platform, clipMetadata),
+            'clip-start': String(start),
+            'clip-end': String(end)
+          },
+          multipart: request.upload?.multipart,
+          signal: request.signal,
+          onProgress: request.onUploadProgress && ((progress) => request.onUploadProgress?.({
+            loadedBytes: uploadedBytes + progress.loadedBytes,
+            totalBytes
+          }))
+        });
+
+        uploadedBytes += sizes[position];
+        stored.push({
+          index: position + 1,
+          start,
+          end,
+          duration: clip.duration,
+          publicUrl: upload.publicUrl,
+          objectKey: upload.key,
+          filename: upload.key.split('/').pop(),
+          fileSize: sizes[position]
+        });
+      }
+    } catch (error) {
+      // uploadFile only removes a local file after its upload succeeded
+      await Promise.all(localClips.slice(stored.length).map(clip => this.downloader.cleanup(clip.filePath)));
+      throw error;
+    }
+
+    return {
+      platform,
+      metadata: download.metadata,
+      method: download.method,
+      result: { success: true, clips: stored }
+    };
+  }
+}
@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import type { FormatOptions, PlaylistEntry, ProfessionalVideoDownloaderService } from './downloader.js';
+import type { CloudDownloadPipeline, UploadSettings } from './pipeline.js';
+import type { TranscodeProfileName } from './transcode.js';
+import type { CloudStorageService, UploadResult } from './storage.js';
+import type { PlatformCredentials } from './cookies.js';
+import { sanitizeKeySegment } from './keys.js';
+import type { DownloadResult } from './types.js';
+import { toErrorInfo, type ErrorCode } from './errors.js';
+
+export interface PlaylistDownloadOptions {
+  /** yt-dlp `--playlist-items` spec, e.g. `1-10,15` */
+  items?: string;
+  maxItems: number;
+  /** Inclusive YYYYMMDD bounds on the upload date */
+  dateAfter?: string;
+  dateBefore?: string;
+  onlyNew?: boolean;
+  concurrency: number;
+  force?: boolean;
+  format?: FormatOptions;
+  profile?: TranscodeProfileName;
+  signal?: AbortSignal;
+  credentials?: PlatformCredentials;
+  upload?: UploadSettings;
+  onEntryDone?: (done: number, total: number, entry: PlaylistManifestEntry) => void;
+}
+
+export type PlaylistEntryStatus = 'downloaded' | 'cached' | 'failed';
+
+export interface PlaylistManifestEntry {
+  index: number;
+  url: string;
+  id?: string;
+  title?: string;
+  upload_date?: string;
+  status: PlaylistEntryStatus;
+  result: DownloadResult;
+}
+
+export interface PlaylistManifest {
+  sourceUrl: string;
+  platform: string;
+  playlistId?: string;
+  title?: string;
+  uploader?: string;
+  createdAt: string;
+  filters: {
+    items?: string;
+    maxItems: number;
+    dateAfter?: string;
+    dateBefore?: string;
+    onlyNew: boolean;
+  };
+  totalListed: number;
+  skippedSeen: number;
+  skippedByDate: number;
+  entries: PlaylistManifestEntry[];
+}
+
+export interface PlaylistDownloadResult {
+  success: boolean;
+  manifest?: PlaylistManifest;
+  manifestUpload?: UploadResult;
+  error?: string;
+  errorCode?: ErrorCode;
+  platform: string;
+}
+
+interface PlaylistState {
+  sourceUrl: string;
+  updatedAt: string;
+  seen: string[];
+}
+
+const PLAYLIST_STATE_PREFIX = '.playlists/';
+
+// Entries listed per run when no explicit item range is given
+const MAX_LISTED_ENTRIES = 500;
+
+// Upper bound on remembered entries per playlist, oldest are dropped first
+const MAX_SEEN_ENTRIES = 5000;
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight, keeping the
+ * results in input order.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const position = next++;
+      results[position] = await worker(items[position]);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+function entryKey(entry: PlaylistEntry): string {
+  return entry.id || entry.url;
+}
+
+/**
+ * Downloads the entries of a playlist, channel or profile through the shared
+ * cloud pipeline and writes a manifest of the per-entry results to the bucket.
+ * "Only new" state is kept under `.playlists/` next to the dedup index.
+ */
+export class PlaylistDownloader {
+  private readonly downloader: ProfessionalVideoDownloaderService;
+  private readonly storage: CloudStorageService;
+  private readonly pipeline: CloudDownloadPipeline;
+
+  constructor(downloader: ProfessionalVideoDownloaderService, storage: CloudStorageService, pipeline: CloudDownloadPipeline) {
+    this.downloader = downloader;
+    this.storage = storage;
+    this.pipeline = pipeline;
+  }
+
+  private stateKey(platform: string, url: string): string {
+    const urlHash = createHash('sha1').update(url).digest('hex').slice(0, 16);
+    return `${PLAYLIST_STATE_PREFIX}${sanitizeKeySegment(platform)}/${urlHash}.json`;
+  }
+
+  private async loadSeen(platform: string, url: string): Promise<Set<string>> {
+    try {
+      const content = await this.storage.getObjectText(this.stateKey(platform, url));
+      if (!content) return new Set();
+
+      const state: PlaylistState = JSON.parse(content);
+      return new Set(state.seen);
+    } catch (error) {
+      console.warn(`Failed to load playlist state for ${url}:`, error);
+      return new Set();
+    }
+  }
+
+  private async saveSeen(platform: string, url: string, seen: Set<string>): Promise<void> {
+    const state: PlaylistState = {
+      sourceUrl: url,
+      updatedAt: new Date().toISOString(),
+      seen: [...seen].slice(-MAX_SEEN_ENTRIES)
+    };
+
+    try {
+      await this.storage.putJson(this.stateKey(platform, url), state);
+    } catch (error) {
+      console.warn(`Failed to save playlist state for ${url}:`, error);
+    }
+  }
+
+  /**
+   * Flat listings often omit the upload date. Only when a date filter is active,
+   * fall back to a full metadata lookup for those entries.
+   */
+  private async resolveUploadDate(entry: PlaylistEntry, credentials?: PlatformCredentials): Promise<string | undefined> {
+    if (entry.upload_date) return entry.upload_date;
+
+    // Listings come from the remote site, entry URLs get the same checks as tool input
+    const normalized = await this.downloader.normalizeUrl(entry.url, credentials).catch(() => undefined);
+    if (!normalized) return undefined;
+
+    const result = await this.downloader.getVideoMetadata(normalized.url, credentials);
+    return result.metadata?.upload_date;
+  }
+
+  private async selectEntries(
+    entries: PlaylistEntry[],
+    seen: Set<string>,
+    options: PlaylistDownloadOptions
+  ): Promise<{ selected: PlaylistEntry[]; skippedSeen: number; skippedByDate: number }> {
+    const selected: PlaylistEntry[] = [];
+    let skippedSeen = 0;
+    let skippedByDate = 0;
+    const hasDateFilter = !!(options.dateAfter || options.dateBefore);
+
+    for (const entry of entries) {
+      if (selected.length >= options.maxItems || options.signal?.aborted) break;
+
+      if (options.onlyNew && seen.has(entryKey(entry))) {
+        skippedSeen++;
+        continue;
+      }
+
+      if (hasDateFilter) {
+        const uploadDate = await this.resolveUploadDate(entry, options.credentials);
+        if (
+          !uploadDate ||
+          (options.dateAfter && uploadDate < options.dateAfter) ||
+          (options.dateBefore && uploadDate > options.dateBefore)
+        ) {
+          skippedByDate++;
+          continue;
+        }
+        entry.upload_date = uploadDate;
+      }
+
+      selected.push(entry);
+    }
+
+    return { selected, skippedSeen, skippedByDate };
+  }
+
+  private async downloadEntry(entry: PlaylistEntry, options: PlaylistDownloadOptions): Promise<PlaylistManifestEntry> {
+    const base = { index: entry.index, url: entry.url, id: entry.id, title: entry.title, upload_date: entry.upload_date };
+
+    if (options.signal?.aborted) {
+      return { ...base, status: 'failed', result: { success: false, error: 'Cancelled' } };
+    }
+
+    try {
+      const { url } = await this.downloader.normalizeUrl(entry.url, options.credentials);
+      const { result, metadata, cached } = await this.pipeline.run('video', url, {
+        force: options.force,
+        format: options.format,
+        profile: options.profile,
+        signal: options.signal,
+        credentials: options.credentials,
+        upload: options.upload
+      });
+
+      return {
+        ...base,
+        title: metadata?.title || entry.title,
+        upload_date: metadata?.upload_date || entry.upload_date,
+        status: !result.success ? 'failed' : cached ? 'cached' : 'downloaded',
+        result
+      };
+    } catch (error) {
+      return {
+        ...base,
+        status: 'failed',
+        result: { success: false, error: error instanceof Error ? error.message : 'Unknown error', errorCode: toErrorInfo(error).code }
+      };
+    }
+  }
+
+  async run(url: string, options: PlaylistDownloadOptions): Promise<PlaylistDownloadResult> {
+    const listing = await this.downloader.listPlaylistEntries(url, {
+      items: options.items,
+      limit: MAX_LISTED_ENTRIES,
+      credentials: options.credentials
+    });
+    const { platform } = listing;
+
+    if (!listing.success || !listing.entries) {
+      return { success: false, error: listing.error, errorCode: listing.errorCode, platform };
+    }
+
+    // State is keyed by the listing URL, an item range does not change what "seen" means
+    const seen = await this.loadSeen(platform, url);
+    const { selected, skippedSeen, skippedByDate } = await this.selectEntries(listing.entries, seen, options);
+
+    let done = 0;
+    const entries = await mapWithConcurrency(selected, options.concurrency, async (entry) => {
+      const manifestEntry = await this.downloadEntry(entry, options);
+      options.onEntryDone?.(++done, selected.length, manifestEntry);
+      return manifestEntry;
+    });
+
+    for (const entry of entries) {
+      if (entry.status !== 'failed') {
+        seen.delete(entryKey(entry));
+        seen.add(entryKey(entry));
+      }
+    }
+    await this.saveSeen(platform, url, seen);
+
+    const manifest: PlaylistManifest = {
+      sourceUrl: url,
+      platform,
+      playlistId: listing.id,
+      title: listing.title,
+      uploader: listing.uploader,
+      createdAt: new Date().toISOString(),
+      filters: {
+        items: options.items,
+        maxItems: options.maxItems,
+        dateAfter: options.dateAfter,
+        dateBefore: options.dateBefore,
+        onlyNew: !!options.onlyNew
+      },
+      totalListed: listing.entries.length,
+      skippedSeen,
+      skippedByDate,
+      entries
+    };
+
+    const manifestUpload = await this.storage.uploadBuffer(
+      Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'),
+      'manifest.json',
+      `playlist_manifest_${Date.now()}_`,
+      { metadata: { 'source-url': url, platform } }
+    );
+
+    return { success: true, manifest, manifestUpload, platform };
+  }
+}
@@ -0,0 +1,82 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { DownloadProgress } from './downloader.js';
+import type { UploadProgress } from './storage.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Share of the overall progress bar given to the download, the rest covers the upload
+const DOWNLOAD_WEIGHT = 80;
+const TOTAL = 100;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GiB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MiB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KiB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Emits MCP `notifications/progress` for a tool call that downloads and then
+ * uploads a file, or that works through a list of downloads. Does nothing
+ * when the client did not send a progress token. Progress only ever moves
+ * forward and is reported in whole percent steps.
+ */
+export class ToolProgressReporter {
+  private readonly extra: ToolExtra;
+  private lastProgress = -1;
+
+  constructor(extra: ToolExtra) {
+    this.extra = extra;
+  }
+
+  download(progress: DownloadProgress): void {
+    switch (progress.phase) {
+      case 'resolving':
+        this.report(0, 'Resolving media');
+        break;
+      case 'downloading': {
+        const percent = progress.percent ?? 0;
+        const size = progress.totalBytes ? ` of ${formatBytes(progress.totalBytes)}` : '';
+        const speed = progress.speed ? ` at ${progress.speed}` : '';
+        this.report((percent / 100) * DOWNLOAD_WEIGHT, `Downloading ${percent.toFixed(1)}%${size}${speed}`);
+        break;
+      }
+      case 'post-processing':
+        this.report(DOWNLOAD_WEIGHT, 'Post-processing');
+        break;
+    }
+  }
+
+  upload(progress: UploadProgress): void {
+    const fraction = progress.totalBytes ? progress.loadedBytes / progress.totalBytes : 0;
+    const total = progress.totalBytes ? ` of ${formatBytes(progress.totalBytes)}` : '';
+    this.report(
+      DOWNLOAD_WEIGHT + fraction * (TOTAL - DOWNLOAD_WEIGHT),
+      `Uploading ${formatBytes(progress.loadedBytes)}${total}`
+    );
+  }
+
+  /**
+   * Progress for tools made of several independent downloads, such as a playlist.
+   */
+  step(done: number, total: number, message: string): void {
+    this.report(total > 0 ? (done / total) * TOTAL : TOTAL, message);
+  }
+
+  private report(value: number, message: string): void {
+    const progressToken = this.extra._meta?.progressToken;
+    if (progressToken === undefined) return;
+
+    const progress = Math.floor(Math.min(TOTAL, value));
+    if (progress <= this.lastProgress) return;
+    this.lastProgress = progress;
+
+    this.extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total: TOTAL, message }
+    }).catch((error) => {
+      console.warn('Failed to send progress notification:', error);
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import nodeFetch, { type Response } from 'node-fetch';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import type { Agent } from 'http';
+
+export interface ProxySettings {
+  /** Default proxy for every platform */
+  url?: string;
+  /** Per-platform overrides keyed by platform, `direct` bypasses the proxy */
+  platforms?: Record<string, string>;
+  /** Proxies rotated round-robin whenever a request is rate limited or hits a bot check */
+  pool?: string[];
+}
+
+export interface ProxyFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** `manual` hands 3xx responses back instead of following them */
+  redirect?: 'follow' | 'manual';
+}
+
+export const DIRECT_CONNECTION = 'direct';
+
+// Upper bound on proxies tried for one request, however large the pool
+const MAX_ROTATION_ATTEMPTS = 3;
+
+const PROXY_URL_REGEX = /^(https?|socks4a?|socks5h?):\/\/[^\s/]+\/?$/;
+
+export function isValidProxyUrl(value: string): boolean {
+  return PROXY_URL_REGEX.test(value);
+}
+
+/**
+ * Proxy URL without its credentials, safe for logs and tool output.
+ */
+export function redactProxyUrl(proxyUrl: string): string {
+  return proxyUrl.replace(/\/\/[^@/]*@/, '//***@');
+}
+
+/**
+ * Picks the outbound proxy per platform: a per-platform override wins, then the
+ * current pool proxy, then the default proxy. Shared by the yt-dlp and fetch
+ * code paths so both leave through the same IP.
+ */
+export class ProxyRouter {
+  private readonly settings: ProxySettings;
+  private cursor = 0;
+
+  constructor(settings: ProxySettings = {}) {
+    this.settings = settings;
+  }
+
+  /**
+   * Proxy URL for the next request to the platform, undefined for a direct connection.
+   */
+  proxyFor(platform: string): string | undefined {
+    const override = this.settings.platforms?.[platform];
+    if (override !== undefined) {
+      return override === DIRECT_CONNECTION ? undefined : override;
+    }
+
+    const pool = this.settings.pool;
+    if (pool?.length) {
+      return pool[this.cursor % pool.length];
+    }
+
+    return this.settings.url;
+  }
+
+  /**
+   * How many proxies a blocked request to the platform may try.
+   */
+  attemptsFor(platform: string): number {
+    if (this.settings.platforms?.[platform] !== undefined) return 1;
+    return Math.max(1, Math.min(this.settings.pool?.length ?? 1, MAX_ROTATION_ATTEMPTS));
+  }
+
+  /**
+   * Move on to the next pool proxy after `failedProxy` was blocked. A no-op when a
+   * concurrent request has already rotated away from it.
+   */
+  rotate(failedProxy: string | undefined): void {
+    const pool = this.settings.pool;
+    if (!pool?.length || failedProxy === undefined || pool[this.cursor % pool.length] !== failedProxy) return;
+
+    this.cursor = (this.cursor + 1) % pool.length;
+    console.warn(`⚠️ Proxy ${redactProxyUrl(failedProxy)} was blocked, rotating to ${redactProxyUrl(pool[this.cursor])}`);
+  }
+
+  describe(): string {
+    const parts: string[] = [];
+    if (this.settings.url) parts.push(`default ${redactProxyUrl(this.settings.url)}`);
+    if (this.settings.pool?.length) parts.push(`pool of ${this.settings.pool.length}`);
+    const platforms = Object.keys(this.settings.platforms || {});
+    if (platforms.length) parts.push(`overrides for ${platforms.join(', ')}`);
+    return parts.length ? parts.join(', ') : 'direct connection';
+  }
+}
+
+export function proxyArgs(proxyUrl?: string): string[] {
+  return proxyUrl ? ['--proxy', proxyUrl] : [];
+}
+
+const agents = new Map<string, Agent>();
+
+function agentFor(proxyUrl: string): Agent {
+  let agent = agents.get(proxyUrl);
+  if (!agent) {
+    agent = proxyUrl.startsWith('socks') ? new SocksProxyAgent(proxyUrl) : new HttpsProxyAgent(proxyUrl);
+    agents.set(proxyUrl, agent);
+  }
+  return agent;
+}
+
+/**
+ * `fetch` through an optional proxy. The built-in fetch has no agent support, so
+ * every request goes through node-fetch and callers get a single response type.
+ */
+export function proxyFetch(url: string, init: ProxyFetchInit = {}, proxyUrl?: string): Promise<Response> {
+  return nodeFetch(url, {
+    method: init.method,
+    headers: init.headers,
+    signal: init.signal,
+    redirect: init.redirect,
+    agent: proxyUrl ? agentFor(proxyUrl) : undefined
+  });
+}
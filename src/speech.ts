@@ -0,0 +1,132 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TranscriptSegment } from './transcript.js';
+
+export interface SpeechToTextSettings {
+  /** whisper.cpp CLI binary, resolved through PATH */
+  binary: string;
+  /** Path of a ggml model file, e.g. ggml-base.bin */
+  model: string;
+  /** CPU threads, defaults to every core */
+  threads?: number;
+}
+
+export interface SpeechTranscript {
+  segments: TranscriptSegment[];
+  /** Language code detected by the model, or the one that was requested */
+  language: string;
+}
+
+// whisper.cpp only reads 16 kHz mono PCM WAV
+export const SPEECH_SAMPLE_RATE = 16000;
+
+const DEFAULT_BINARY = 'whisper-cli';
+
+// Non-speech markers such as [BLANK_AUDIO], [Music] or (applause)
+const NON_SPEECH_REGEX = /^\s*[[(][^\])]*[\])]\s*$/;
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    /** Milliseconds from the start of the audio */
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+/**
+ * Speech-to-text settings from the server environment. The backend is off
+ * unless WHISPER_MODEL points at a model file.
+ */
+export function speechSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): SpeechToTextSettings | undefined {
+  if (!env.WHISPER_MODEL) return undefined;
+
+  const threads = env.WHISPER_THREADS ? parseInt(env.WHISPER_THREADS, 10) : undefined;
+  return {
+    binary: env.WHISPER_BIN || DEFAULT_BINARY,
+    model: env.WHISPER_MODEL,
+    threads: threads && threads > 0 ? threads : undefined
+  };
+}
+
+/**
+ * Local speech-to-text with a whisper.cpp style CLI, on the CPU only so it
+ * runs on any host. Slow for long videos: expect roughly real time with the
+ * base model on a few cores.
+ */
+export class SpeechTranscriber {
+  private readonly settings: SpeechToTextSettings;
+
+  constructor(settings: SpeechToTextSettings) {
+    this.settings = settings;
+  }
+
+  describe(): string {
+    const threads = this.settings.threads ?? os.cpus().length;
+    return `${this.settings.binary} with ${path.basename(this.settings.model)} (${threads} CPU threads)`;
+  }
+
+  /**
+   * Transcribe a 16 kHz mono WAV file. The language is detected by the model
+   * unless one is given.
+   */
+  async transcribe(audioPath: string, language?: string, signal?: AbortSignal): Promise<SpeechTranscript> {
+    const outputBase = audioPath.replace(/\.[^./]+$/, '');
+    const outputPath = `${outputBase}.json`;
+
+    try {
+      await this.run([
+        '--model', this.settings.model,
+        '--file', audioPath,
+        '--language', language || 'auto',
+        '--threads', String(this.settings.threads ?? os.cpus().length),
+        '--no-gpu',
+        '--no-prints',
+        '--output-json',
+        '--output-file', outputBase
+      ], signal);
+
+      const output: WhisperOutput = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+      const segments = (output.transcription || [])
+        .map(segment => ({
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+          text: segment.text.trim()
+        }))
+        .filter(segment => segment.text.length > 0 && !NON_SPEECH_REGEX.test(segment.text));
+
+      return { segments, language: output.result?.language || language || 'unknown' };
+    } finally {
+      await fs.unlink(outputPath).catch(() => undefined);
+    }
+  }
+
+  private run(args: string[], signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const process = spawn(this.settings.binary, args, {
+        stdio: ['ignore', 'ignore', 'pipe'],
+        signal
+      });
+
+      let stderr = '';
+
+      process.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${this.settings.binary} failed with code ${code}: ${stderr.trim().slice(-200)}`));
+        }
+      });
+
+      process.on('error', (error) => {
+        reject(new Error(`${this.settings.binary} process error: ${error.message}`));
+      });
+    });
+  }
+}
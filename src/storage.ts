@@ -1,11 +1,83 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadBucketCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { readFile, unlink } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { stat, unlink } from 'fs/promises';
 import { basename, extname } from 'path';
+import type { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { lookup } from 'mime-types';
+import { withCollisionSuffix } from './keys.js';
+import { MediaError } from './errors.js';
 import type { CloudStorageConfig } from './types.js';
 
+export interface UploadProgress {
+  loadedBytes: number;
+  totalBytes?: number;
+}
+
+export interface MultipartSettings {
+  /** Files at or above this size in bytes go up as a multipart upload, smaller ones as a single PUT */
+  threshold?: number;
+  /** Part size in bytes, at least 5 MiB */
+  partSize?: number;
+  /** Parts uploaded in parallel */
+  concurrency?: number;
+}
+
+export interface UploadOptions {
+  /** Exact object key to use instead of `${keyPrefix}${uuid}${ext}`; taken keys get a numeric suffix */
+  key?: string;
+  /** S3 user metadata (x-amz-meta-*), values are encoded to stay header-safe */
+  metadata?: Record<string, string>;
+  /** Multipart tuning of the calling session, the service itself is shared between sessions */
+  multipart?: MultipartSettings;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadResult {
+  publicUrl: string;
+  key: string;
+}
+
+const MAX_KEY_COLLISION_ATTEMPTS = 20;
+const MAX_METADATA_VALUE_LENGTH = 512; // S3 allows 2 KB of user metadata in total
+
+/**
+ * S3 user metadata travels as HTTP headers, so values must be printable ASCII.
+ * Anything else is percent-encoded; overly long values are truncated.
+ */
+function encodeObjectMetadata(metadata?: Record<string, string>): Record<string, string> | undefined {
+  if (!metadata) return undefined;
+
+  const encoded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(metadata)) {
+    const safeValue = /^[\x20-\x7e]*$/.test(value) ? value : encodeURIComponent(value);
+    encoded[name.toLowerCase()] = safeValue
+      .slice(0, MAX_METADATA_VALUE_LENGTH)
+      .replace(/%[0-9A-Fa-f]?$/, ''); // Don't leave a truncated escape sequence behind
+  }
+  return encoded;
+}
+
+/**
+ * Upload failures are transient bucket problems, except objects over the
+ * provider's size limit, which no retry will fix.
+ */
+function uploadError(error: unknown): MediaError {
+  const message = `Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  const tooLarge = error instanceof Error && error.name === 'EntityTooLarge';
+  return new MediaError(tooLarge ? 'TOO_LARGE' : 'STORAGE_FAILED', message);
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024; // S3 minimum for every part but the last
+const MAX_PARTS = 10000;
+
+export const DEFAULT_MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+export const DEFAULT_MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+export const DEFAULT_MULTIPART_CONCURRENCY = 4;
+
 export class CloudStorageService {
   private s3Client: S3Client;
   private config: CloudStorageConfig;
@@ -23,32 +95,135 @@ export class CloudStorageService {
     });
   }
 
+  private getPartSize(fileSize: number, configured: number = DEFAULT_MULTIPART_PART_SIZE): number {
+    // Grow the part size for very large files so the upload stays under the part count limit
+    return Math.max(MIN_PART_SIZE, configured, Math.ceil(fileSize / MAX_PARTS));
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(new HeadObjectCommand({ Bucket: this.config.bucketName, Key: key }));
+      return true;
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (status === 404 || (error instanceof Error && error.name === 'NotFound')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the object key for an upload. Requested keys are kept deterministic and
+   * only get a `-2`, `-3`... suffix when the key is already taken in the bucket.
+   */
+  private async resolveKey(requestedKey: string | undefined, keyPrefix: string, fileExtension: string): Promise<string> {
+    if (!requestedKey) {
+      return `${keyPrefix}${uuidv4()}${fileExtension}`;
+    }
+
+    if (!(await this.objectExists(requestedKey))) {
+      return requestedKey;
+    }
+
+    for (let attempt = 2; attempt <= MAX_KEY_COLLISION_ATTEMPTS; attempt++) {
+      const candidate = withCollisionSuffix(requestedKey, attempt);
+      if (!(await this.objectExists(candidate))) {
+        return candidate;
+      }
+    }
+
+    return withCollisionSuffix(requestedKey, Date.now());
+  }
+
+  /**
+   * Public URL for an object, or a fresh 7-day presigned URL when no public base is configured.
+   */
+  async getObjectUrl(key: string): Promise<string> {
+    if (this.config.publicUrlBase) {
+      return `${this.config.publicUrlBase}/${key}`;
+    }
+
+    // Generate a presigned URL that expires in 7 days (maximum allowed by AWS)
+    const getCommand = new GetObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: key,
+    });
+    return await getSignedUrl(this.s3Client, getCommand, { expiresIn: 604800 }); // 7 days (max allowed)
+  }
+
+  /**
+   * Read a small object as text. Returns undefined when the object does not exist.
+   */
+  async getObjectText(key: string): Promise<string | undefined> {
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({ Bucket: this.config.bucketName, Key: key }));
+      return await response.Body?.transformToString('utf-8');
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (status === 404 || (error instanceof Error && error.name === 'NoSuchKey')) {
+        return undefined;
+      }
+      throw new MediaError('STORAGE_FAILED', `Failed to read ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Write a small JSON object at an exact key, overwriting any existing object.
+   */
+  async putJson(key: string, value: unknown): Promise<void> {
+    await this.s3Client.send(new PutObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: key,
+      Body: JSON.stringify(value, null, 2),
+      ContentType: 'application/json',
+    }));
+  }
+
   async testConnection(): Promise<void> {
     try {
       const command = new HeadBucketCommand({ Bucket: this.config.bucketName });
       await this.s3Client.send(command);
     } catch (error) {
-      throw new Error(`S3 connection test failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new MediaError('STORAGE_FAILED', `S3 connection test failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async uploadFile(localPath: string, keyPrefix: string = ''): Promise<string> {
+  async uploadFile(localPath: string, keyPrefix: string = '', options: UploadOptions = {}): Promise<UploadResult> {
     try {
-      const fileBuffer = await readFile(localPath);
+      const { size: fileSize } = await stat(localPath);
       const fileName = basename(localPath);
       const fileExtension = extname(fileName);
-      const uniqueKey = `${keyPrefix}${uuidv4()}${fileExtension}`;
+      const uniqueKey = await this.resolveKey(options.key, keyPrefix, fileExtension);
       
       const contentType = lookup(fileName) || 'application/octet-stream';
 
-      const command = new PutObjectCommand({
+      // Every file is streamed from disk so it never sits in memory as a whole. Files
+      // below the threshold go up as a single PUT, larger ones as a multipart upload.
+      const { multipart = {}, onProgress, signal } = options;
+      const threshold = multipart.threshold ?? DEFAULT_MULTIPART_THRESHOLD;
+      const body = createReadStream(localPath);
+      const params = {
         Bucket: this.config.bucketName,
         Key: uniqueKey,
-        Body: fileBuffer,
+        Body: body,
         ContentType: contentType,
-      });
+        Metadata: encodeObjectMetadata(options.metadata),
+      };
 
-      await this.s3Client.send(command);
+      try {
+        if (signal?.aborted) {
+          throw new Error('Upload cancelled');
+        }
+        if (fileSize < threshold) {
+          await this.s3Client.send(new PutObjectCommand({ ...params, ContentLength: fileSize }), { abortSignal: signal });
+          onProgress?.({ loadedBytes: fileSize, totalBytes: fileSize });
+        } else {
+          await this.uploadInParts(params, fileSize, multipart, onProgress, signal);
+        }
+      } finally {
+        body.destroy();
+      }
 
       // Clean up local file
       try {
@@ -57,27 +232,54 @@ export class CloudStorageService {
         console.warn(`Failed to delete local file ${localPath}:`, error);
       }
 
-      // Return public URL
-      if (this.config.publicUrlBase) {
-        return `${this.config.publicUrlBase}/${uniqueKey}`;
-      } else {
-        // Generate a presigned URL that expires in 7 days (maximum allowed by AWS)
-        const getCommand = new GetObjectCommand({
-          Bucket: this.config.bucketName,
-          Key: uniqueKey,
-        });
-        return await getSignedUrl(this.s3Client, getCommand, { expiresIn: 604800 }); // 7 days (max allowed)
-      }
+      return { publicUrl: await this.getObjectUrl(uniqueKey), key: uniqueKey };
     } catch (error) {
       console.error('Failed to upload file to cloud storage:', error);
-      throw new Error(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw uploadError(error);
+    }
+  }
+
+  private async uploadInParts(
+    params: { Bucket: string; Key: string; Body: Readable; ContentType: string; Metadata?: Record<string, string> },
+    fileSize: number,
+    multipart: MultipartSettings,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // lib-storage aborts the multipart upload (discarding uploaded parts) when a part fails
+    const upload = new Upload({
+      client: this.s3Client,
+      params,
+      partSize: this.getPartSize(fileSize, multipart.partSize),
+      queueSize: multipart.concurrency ?? DEFAULT_MULTIPART_CONCURRENCY,
+      leavePartsOnError: false,
+    });
+
+    if (onProgress) {
+      upload.on('httpUploadProgress', (progress) => {
+        onProgress({
+          loadedBytes: progress.loaded ?? 0,
+          totalBytes: progress.total ?? fileSize,
+        });
+      });
+    }
+
+    const abort = () => {
+      upload.abort().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      await upload.done();
+    } finally {
+      signal?.removeEventListener('abort', abort);
     }
   }
 
-  async uploadBuffer(buffer: Buffer, fileName: string, keyPrefix: string = ''): Promise<string> {
+  async uploadBuffer(buffer: Buffer, fileName: string, keyPrefix: string = '', options: Pick<UploadOptions, 'key' | 'metadata'> = {}): Promise<UploadResult> {
     try {
       const fileExtension = extname(fileName);
-      const uniqueKey = `${keyPrefix}${uuidv4()}${fileExtension}`;
+      const uniqueKey = await this.resolveKey(options.key, keyPrefix, fileExtension);
       
       const contentType = lookup(fileName) || 'application/octet-stream';
 
@@ -86,24 +288,15 @@ export class CloudStorageService {
         Key: uniqueKey,
         Body: buffer,
         ContentType: contentType,
+        Metadata: encodeObjectMetadata(options.metadata),
       });
 
       await this.s3Client.send(command);
 
-      // Return public URL
-      if (this.config.publicUrlBase) {
-        return `${this.config.publicUrlBase}/${uniqueKey}`;
-      } else {
-        // Generate a presigned URL that expires in 7 days (maximum allowed by AWS)
-        const getCommand = new GetObjectCommand({
-          Bucket: this.config.bucketName,
-          Key: uniqueKey,
-        });
-        return await getSignedUrl(this.s3Client, getCommand, { expiresIn: 604800 }); // 7 days (max allowed)
-      }
+      return { publicUrl: await this.getObjectUrl(uniqueKey), key: uniqueKey };
     } catch (error) {
       console.error('Failed to upload buffer to cloud storage:', error);
-      throw new Error(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw uploadError(error);
     }
   }
 }
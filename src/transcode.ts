@@ -0,0 +1,109 @@
+import type { MediaProbe } from './media.js';
+
+export const TRANSCODE_PROFILES = ['web-h264-720p', 'mobile-480p', 'gif-preview', 'audio-opus'] as const;
+
+export type TranscodeProfileName = typeof TRANSCODE_PROFILES[number];
+
+export interface TranscodeProfile {
+  name: TranscodeProfileName;
+  description: string;
+  /** Output file extension without the dot */
+  extension: string;
+  /** ffmpeg output arguments, between the input and the output file */
+  args: string[];
+  /** What ffprobe must find in the output for the transcode to count as successful */
+  expect: {
+    videoCodec?: string;
+    audioCodec?: string;
+    maxHeight?: number;
+    audioOnly?: boolean;
+  };
+}
+
+// Even heights up to the cap, never upscaled; libx264 rejects odd dimensions
+const scaleToHeight = (height: number) => `scale=-2:'trunc(min(${height},ih)/2)*2'`;
+
+const PROFILES: Record<TranscodeProfileName, TranscodeProfile> = {
+  'web-h264-720p': {
+    name: 'web-h264-720p',
+    description: 'H.264/AAC MP4 up to 720p that plays in every browser',
+    extension: 'mp4',
+    args: [
+      '-map', '0:v:0', '-map', '0:a:0?',
+      '-vf', scaleToHeight(720),
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-profile:v', 'high', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '128k',
+      '-movflags', '+faststart'
+    ],
+    expect: { videoCodec: 'h264', audioCodec: 'aac', maxHeight: 720 }
+  },
+  'mobile-480p': {
+    name: 'mobile-480p',
+    description: 'Small H.264/AAC MP4 up to 480p for mobile data',
+    extension: 'mp4',
+    args: [
+      '-map', '0:v:0', '-map', '0:a:0?',
+      '-vf', scaleToHeight(480),
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '26', '-profile:v', 'main', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '96k', '-ac', '2',
+      '-movflags', '+faststart'
+    ],
+    expect: { videoCodec: 'h264', audioCodec: 'aac', maxHeight: 480 }
+  },
+  'gif-preview': {
+    name: 'gif-preview',
+    description: 'Silent 10 second animated GIF, 480 px wide',
+    extension: 'gif',
+    args: [
+      '-t', '10',
+      '-vf', 'fps=10,scale=480:-1:flags=lanczos,split[a][b];[a]palettegen[palette];[b][palette]paletteuse',
+      '-an',
+      '-loop', '0'
+    ],
+    expect: { videoCodec: 'gif' }
+  },
+  'audio-opus': {
+    name: 'audio-opus',
+    description: 'Opus audio only, 96 kbps',
+    extension: 'opus',
+    args: ['-vn', '-map', '0:a:0', '-c:a', 'libopus', '-b:a', '96k'],
+    expect: { audioCodec: 'opus', audioOnly: true }
+  }
+};
+
+export function getTranscodeProfile(name: TranscodeProfileName): TranscodeProfile {
+  return PROFILES[name];
+}
+
+/**
+ * Check a transcoded file against its profile. Returns the first problem found,
+ * or undefined when the output is what the profile promises.
+ */
+export function validateTranscode(probe: MediaProbe, profile: TranscodeProfile): string | undefined {
+  const video = probe.streams.filter(stream => stream.codec_type === 'video');
+  const audio = probe.streams.filter(stream => stream.codec_type === 'audio');
+  const { expect } = profile;
+
+  if (!(probe.duration > 0)) return 'output has no duration';
+
+  if (expect.audioOnly && video.length > 0) return 'output still contains a video stream';
+  if (expect.audioOnly && audio.length === 0) return 'output has no audio stream';
+
+  if (expect.videoCodec) {
+    if (video.length === 0) return 'output has no video stream';
+    const wrong = video.find(stream => stream.codec_name !== expect.videoCodec);
+    if (wrong) return `video codec is ${wrong.codec_name}, expected ${expect.videoCodec}`;
+  }
+
+  if (expect.audioCodec) {
+    const wrong = audio.find(stream => stream.codec_name !== expect.audioCodec);
+    if (wrong) return `audio codec is ${wrong.codec_name}, expected ${expect.audioCodec}`;
+  }
+
+  if (expect.maxHeight) {
+    const tall = video.find(stream => (stream.height ?? 0) > expect.maxHeight!);
+    if (tall) return `video is ${tall.height}px high, expected at most ${expect.maxHeight}px`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { formatTranscript, parseSubtitles, segmentsToSrt, segmentsToVtt } from './transcript.js';
+
+describe('parseSubtitles', () => {
+  it('parses WebVTT cues and strips inline tags and entities', () => {
+    const vtt = [
+      'WEBVTT',
+      'Kind: captions',
+      '',
+      '00:00:01.000 --> 00:00:02.500 align:start position:0%',
+      '<c>Hello</c><00:00:01.500><c> world</c> &amp; more',
+      '',
+      '01:00:03.250 --> 01:00:04.000',
+      'Second line'
+    ].join('\n');
+
+    expect(parseSubtitles(vtt)).toEqual([
+      { start: 1, end: 2.5, text: 'Hello world & more' },
+      { start: 3603.25, end: 3604, text: 'Second line' }
+    ]);
+  });
+
+  it('drops lines repeated by rolling automatic captions', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:02.000',
+      'first',
+      '',
+      '00:00:02.000 --> 00:00:04.000',
+      'first',
+      'second',
+      '',
+      '00:00:04.000 --> 00:00:04.010',
+      'second'
+    ].join('\n');
+
+    expect(parseSubtitles(vtt)).toEqual([
+      { start: 0, end: 2, text: 'first' },
+      { start: 2, end: 4, text: 'second' }
+    ]);
+  });
+
+  it('reads SRT with comma separators and CRLF line endings', () => {
+    const srt = '1\r\n00:00:05,100 --> 00:00:06,200\r\nHi there\r\n\r\n';
+    expect(parseSubtitles(srt)).toEqual([{ start: 5.1, end: 6.2, text: 'Hi there' }]);
+  });
+});
+
+describe('formatTranscript', () => {
+  const segments = [
+    { start: 0, end: 1.5, text: 'One' },
+    { start: 3661.007, end: 3662, text: 'Two' }
+  ];
+
+  it('writes SRT with numbered cues', () => {
+    expect(segmentsToSrt(segments)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nOne\n\n2\n01:01:01,007 --> 01:01:02,000\nTwo\n'
+    );
+  });
+
+  it('writes WebVTT with a header', () => {
+    expect(segmentsToVtt(segments)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nOne\n\n01:01:01.007 --> 01:01:02.000\nTwo\n'
+    );
+  });
+
+  it('writes plain text and JSON', () => {
+    expect(formatTranscript(segments, 'txt')).toBe('One\nTwo');
+    expect(JSON.parse(formatTranscript(segments, 'json', 'en'))).toEqual({ language: 'en', segments });
+  });
+
+  it('round-trips through its own output', () => {
+    expect(parseSubtitles(formatTranscript(segments, 'vtt'))).toEqual(segments);
+    expect(parseSubtitles(formatTranscript(segments, 'srt'))).toEqual(segments);
+  });
+});
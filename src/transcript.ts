@@ -0,0 +1,102 @@
+export type TranscriptFormat = 'vtt' | 'srt' | 'txt' | 'json';
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMESTAMP_REGEX = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})/;
+
+function parseTimestamp(value: string): number {
+  const match = value.match(TIMESTAMP_REGEX);
+  if (!match) return 0;
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  return hours * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + parseInt(match[4], 10) / 1000;
+}
+
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+function cleanCueLine(line: string): string {
+  return line
+    .replace(/<[^>]+>/g, '') // Inline timing and styling tags (<00:00:01.000>, <c>, <i>...)
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse WebVTT (or SRT) captions into clean segments.
+ * Automatic captions repeat the previous line in each cue (rolling captions),
+ * so lines already shown by the preceding cue are dropped.
+ */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+  let previousLines: string[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    const cueLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCueLine)
+      .filter(line => line.length > 0);
+
+    const newLines = cueLines.filter(line => !previousLines.includes(line));
+    previousLines = cueLines;
+
+    if (newLines.length === 0) continue;
+
+    segments.push({
+      start: parseTimestamp(startRaw),
+      end: parseTimestamp(endRaw),
+      text: newLines.join(' ')
+    });
+  }
+
+  return segments;
+}
+
+export function segmentsToPlainText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text).join('\n');
+}
+
+export function segmentsToSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, index) => `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${segment.text}\n`)
+    .join('\n');
+}
+
+export function segmentsToVtt(segments: TranscriptSegment[]): string {
+  const cues = segments
+    .map(segment => `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${segment.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+export function formatTranscript(segments: TranscriptSegment[], format: TranscriptFormat, language?: string): string {
+  switch (format) {
+    case 'vtt':
+      return segmentsToVtt(segments);
+    case 'srt':
+      return segmentsToSrt(segments);
+    case 'json':
+      return JSON.stringify({ language, segments }, null, 2);
+    default:
+      return segmentsToPlainText(segments);
+  }
+}
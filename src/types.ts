@@ -1,3 +1,5 @@
+import type { ErrorCode } from './errors.js';
+
 export interface CloudStorageConfig {
   endpoint: string;
   region: string;
@@ -26,23 +28,94 @@ export interface VideoFormat {
   format_id: string;
   ext: string;
   resolution?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+  tbr?: number;
+  vbr?: number;
+  abr?: number;
   filesize?: number;
+  filesize_estimated?: boolean;
+  audio_only?: boolean;
+  video_only?: boolean;
+  format_note?: string;
+  protocol?: string;
+  url: string;
+  quality?: number;
+}
+
+export interface YtDlpFormat {
+  format_id: string;
+  ext: string;
   url: string;
+  resolution?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+  tbr?: number;
+  vbr?: number;
+  abr?: number;
+  filesize?: number;
+  filesize_approx?: number;
+  format_note?: string;
+  protocol?: string;
   quality?: number;
 }
 
+export interface StoredFile {
+  index: number;
+  mediaType: 'video' | 'image';
+  publicUrl: string;
+  objectKey: string;
+  filename?: string;
+  fileSize?: number;
+}
+
 export interface DownloadResult {
   success: boolean;
   publicUrl?: string;
+  objectKey?: string;
   filename?: string;
   fileSize?: number;
+  /** Every stored item of a multi-media post in post order, the first one is also in the fields above */
+  files?: StoredFile[];
   error?: string;
+  errorCode?: ErrorCode;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
   metadata?: VideoMetadata;
 }
 
+export interface StoredClip {
+  index: number;
+  /** Requested range in seconds */
+  start: number;
+  end: number;
+  /** Exact duration in seconds, measured on the clip file */
+  duration: number;
+  publicUrl: string;
+  objectKey: string;
+  filename?: string;
+  fileSize: number;
+}
+
+export interface ClipResult {
+  success: boolean;
+  clips?: StoredClip[];
+  error?: string;
+  errorCode?: ErrorCode;
+  /** Seconds to wait before retrying */
+  retryAfter?: number;
+}
+
 export interface TranscriptResult {
   success: boolean;
   publicUrl?: string;
+  objectKey?: string;
   filename?: string;
   transcript?: string;
   language?: string;
@@ -52,6 +125,7 @@ export interface TranscriptResult {
 export interface ThumbnailResult {
   success: boolean;
   publicUrl?: string;
+  objectKey?: string;
   filename?: string;
   error?: string;
 }
@@ -62,15 +136,53 @@ export interface YtDlpOutput {
   description?: string;
   duration?: number;
   uploader?: string;
+  uploader_id?: string;
+  channel?: string;
+  channel_id?: string;
   upload_date?: string;
   view_count?: number;
   like_count?: number;
+  comment_count?: number;
+  tags?: string[];
+  categories?: string[];
   thumbnail?: string;
   webpage_url: string;
   extractor: string;
-  formats?: any[];
+  url?: string;
+  format_id?: string;
+  ext?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+  formats?: YtDlpFormat[];
   requested_subtitles?: any;
   automatic_captions?: any;
   subtitles?: any;
 }
 
+
+export interface YtDlpPlaylistEntry {
+  id?: string;
+  url?: string;
+  webpage_url?: string;
+  title?: string;
+  duration?: number;
+  uploader?: string;
+  channel?: string;
+  upload_date?: string;
+  timestamp?: number;
+  playlist_index?: number;
+}
+
+export interface YtDlpPlaylistOutput {
+  id?: string;
+  title?: string;
+  uploader?: string;
+  channel?: string;
+  webpage_url?: string;
+  extractor?: string;
+  _type?: string;
+  entries?: YtDlpPlaylistEntry[];
+}
@@ -0,0 +1,195 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+import { detectExtractor, getExtractor } from './extractors/index.js';
+import { proxyFetch } from './proxy.js';
+import { MediaError } from './errors.js';
+
+export interface MediaUrl {
+  /** The URL with tracking parameters and the fragment removed, keeps playlist and timestamp parameters */
+  url: string;
+  /** Stable form for single-video downloads and caching, built from the video ID where the platform allows */
+  canonicalUrl: string;
+  platform: string;
+  videoId?: string;
+  /** Share link that only redirects to the real URL */
+  isShortLink: boolean;
+}
+
+// Tracking parameters common to every platform, on top of anything starting with utm_
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'si', 'feature', 'ref', 'mibextid']);
+
+const SHORT_LINK_TIMEOUT_MS = 10000;
+
+// Redirect hops followed for one share link, each one is checked before it is requested
+const MAX_SHORT_LINK_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata), CGNAT and "this network" IPv4 ranges as [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16]
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  if (lower === '::' || lower === '::1') return true;
+
+  // IPv4-mapped addresses reach the IPv4 host, URL parsing turns the dotted part into hex
+  const mapped = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  const first = lower.startsWith('::') ? 0 : parseInt(lower.split(':')[0], 16);
+  // fc00::/7 unique local, fe80::/10 link-local
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80;
+}
+
+/**
+ * Hosts of the server itself or its internal network, which must never be
+ * fetched on behalf of a client. Only literal addresses and localhost names
+ * are recognized, public names are not resolved.
+ */
+function isInternalHost(hostname: string): boolean {
+  const host = hostname.replace(/\.$/, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+
+  const address = host.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (net.isIPv6(address)) return isPrivateIPv6(address);
+  return false;
+}
+
+/**
+ * Best-effort video ID extraction from the URL alone, so a cache lookup
+ * does not require a round trip to the platform.
+ */
+export function videoIdFromUrl(url: string, platform: string): string | undefined {
+  for (const pattern of getExtractor(platform).videoIdPatterns || []) {
+    const match = url.match(pattern);
+    if (match?.[1]) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Validate and clean up a media URL without any network access. Throws for
+ * anything that is not a plain http(s) URL of a public host.
+ */
+export function parseMediaUrl(input: string): MediaUrl {
+  let parsed: URL;
+  try {
+    parsed = new URL(input.trim());
+  } catch {
+    throw new MediaError('UNSUPPORTED_URL', `Invalid URL: ${input}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new MediaError('UNSUPPORTED_URL', `Unsupported URL scheme ${parsed.protocol}, only http and https URLs can be downloaded`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new MediaError('UNSUPPORTED_URL', 'URLs with embedded credentials are not supported');
+  }
+  if (isInternalHost(parsed.hostname)) {
+    throw new MediaError('UNSUPPORTED_URL', `URLs of local or private network hosts are not supported: ${parsed.hostname}`);
+  }
+  if (!parsed.hostname.includes('.')) {
+    throw new MediaError('UNSUPPORTED_URL', `Invalid host in URL: ${parsed.hostname || input}`);
+  }
+
+  const extractor = detectExtractor(parsed.href);
+  const platformParams = new Set(extractor.trackingParams || []);
+
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (name.startsWith('utm_') || TRACKING_PARAMS.has(name) || platformParams.has(name)) {
+      parsed.searchParams.delete(name);
+    }
+  }
+  parsed.hash = '';
+  if (extractor.platform !== 'unknown') parsed.protocol = 'https:';
+
+  const url = parsed.href;
+  const videoId = videoIdFromUrl(url, extractor.platform);
+
+  return {
+    url,
+    canonicalUrl: videoId && extractor.canonicalUrl ? extractor.canonicalUrl(videoId) : url,
+    platform: extractor.platform,
+    videoId,
+    isShortLink: !!extractor.shortLinks?.some(pattern => pattern.test(url))
+  };
+}
+
+/**
+ * Resolve a host name and throw when any of its addresses is local or private,
+ * so a public name cannot point a download at the server's own network. Names
+ * that do not resolve here pass, they cannot reach an internal address either.
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host)) return;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return;
+  }
+
+  const internal = addresses.find(({ address }) => isInternalHost(address));
+  if (internal) {
+    throw new MediaError('UNSUPPORTED_URL', `${hostname} resolves to a local or private network address (${internal.address})`);
+  }
+}
+
+/**
+ * Follow a share link's redirects to the URL it points at, one hop at a time so
+ * every target is validated before it is requested. Falls back to the short link
+ * itself, which yt-dlp can often still handle, when that fails; redirects into
+ * the local or private network throw.
+ */
+export async function resolveShortLink(url: string, userAgent: string, proxyUrl?: string): Promise<string> {
+  const signal = AbortSignal.timeout(SHORT_LINK_TIMEOUT_MS);
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= MAX_SHORT_LINK_REDIRECTS; hop++) {
+      await assertPublicHost(new URL(current).hostname);
+
+      const response = await proxyFetch(current, {
+        method: 'HEAD',
+        headers: { 'User-Agent': userAgent },
+        redirect: 'manual',
+        signal
+      }, proxyUrl);
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) return current;
+
+      current = parseMediaUrl(new URL(location, current).href).url;
+    }
+    throw new Error(`More than ${MAX_SHORT_LINK_REDIRECTS} redirects`);
+  } catch (error) {
+    if (error instanceof MediaError) throw error;
+    console.warn(`Failed to resolve short link ${url}:`, error);
+    return url;
+  }
+}